@@ -0,0 +1,282 @@
+/**
+ * Audio regression check.
+ * Renders every synth sound offline (with the stand-in context, so no browser
+ * is needed), writes each render to audio-renders/<name>.wav for listening, and
+ * compares its spectral fingerprint with scripts/audio-goldens/<name>.json.
+ * Catches unintended changes in pitch (e.g. CONFIG.BUTTON_EFFECTS), envelope
+ * loudness or timbre.
+ *
+ *   bun scripts/check_audio.ts           compare; exits with 1 on any mismatch
+ *   bun scripts/check_audio.ts --update  rewrite the goldens after an intended change
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { Synth } from '../src/game/Synth';
+import type { EffectButton, MusicParams } from '../src/game/Synth';
+import { Random } from '../src/utils/Random';
+import { StandInContext } from './offline_audio_context';
+import type { StandInBuffer } from './offline_audio_context';
+
+const SAMPLE_RATE = 44100;
+const SEED = 1;
+const GOLDEN_DIR = path.join(import.meta.dirname, 'audio-goldens');
+const RENDER_DIR = path.join(import.meta.dirname, '..', 'audio-renders');
+
+// Fingerprint analysis
+const FFT_SIZE = 8192;
+const BAND_EDGES = logSpaced(40, 16000, 21); // 20 bands
+
+// Allowed drift before a render counts as changed
+const TOLERANCE = {
+    RMS_DB: 1.0,
+    PEAK_CENTS: 30,
+    BAND_DB: 2.0,
+    BAND_FLOOR_DB: -40 // Bands quieter than this (relative to the whole spectrum) are not compared
+};
+
+interface AudioCase {
+    name: string;
+    seconds: number;
+    render: (synth: Synth, output: AudioNode) => void;
+}
+
+interface Fingerprint {
+    rmsDb: number;     // Loudness of the whole render
+    peakHz: number;    // Strongest frequency
+    bandsDb: number[]; // Share of the energy per log-spaced band, dB
+}
+
+const BUTTONS: EffectButton[] = ['X', 'Y', 'A', 'B'];
+
+const CASES: AudioCase[] = [
+    { name: 'eat', seconds: 0.4, render: (synth, out) => synth.eat(out, 0) },
+    ...BUTTONS.map(button => ({
+        name: `button-${button}`,
+        seconds: 0.6,
+        render: (synth: Synth, out: AudioNode) => synth.button(button, out, 0)
+    })),
+    { name: 'game-over', seconds: 0.6, render: (synth, out) => synth.gameOver(out, 0) },
+    { name: 'block', seconds: 0.5, render: (synth, out) => synth.block(out, 0) },
+    { name: 'noise-burst', seconds: 0.5, render: (synth, out) => synth.noiseBurst(0.4, 800, 0.15, out, 0) },
+    { name: 'music-note', seconds: 0.5, render: (synth, out) => synth.musicNote(440, 0.1, 0.3, out, 0) },
+    { name: 'bass-note', seconds: 0.7, render: (synth, out) => synth.bassNote(65.41, out, 0) },
+    { name: 'pad', seconds: 2.0, render: (synth, out) => synth.pad(0, out, 0) },
+    { name: 'stinger-fruit', seconds: 0.5, render: (synth, out) => synth.stinger('fruit', 0, out, 0) },
+    { name: 'stinger-scare', seconds: 0.5, render: (synth, out) => synth.stinger('scare', 0, out, 0) },
+    {
+        name: 'sequence',
+        seconds: 4.0,
+        render: (synth, out) => playSequence(synth, out, { layers: 0, transpose: 0, tempo: 1 }, 3.5)
+    },
+    {
+        name: 'sequence-intense',
+        seconds: 4.0,
+        render: (synth, out) => playSequence(synth, out, { layers: 3, transpose: 5, tempo: 1.5 }, 3.5)
+    },
+];
+
+/**
+ * Schedule the melodic sequencer ahead of time, as the live setTimeout loop would play it
+ */
+function playSequence(synth: Synth, output: AudioNode, params: MusicParams, seconds: number) {
+    const state = synth.startSequence();
+    for (let time = 0; time < seconds;) {
+        time += synth.sequencerStep(state, params, output, time);
+    }
+}
+
+async function render(audioCase: AudioCase): Promise<StandInBuffer> {
+    const context = new StandInContext(2, Math.ceil(audioCase.seconds * SAMPLE_RATE), SAMPLE_RATE);
+    // The stand-in covers the part of the Web Audio API that Synth uses
+    const synth = new Synth(context as unknown as BaseAudioContext, new Random(SEED));
+    audioCase.render(synth, context.destination as unknown as AudioNode);
+    return context.startRendering();
+}
+
+// --- Analysis ---
+
+function logSpaced(from: number, to: number, count: number): number[] {
+    return Array.from({ length: count }, (_, i) => from * Math.pow(to / from, i / (count - 1)));
+}
+
+/**
+ * In-place radix-2 FFT
+ */
+function fft(re: Float64Array, im: Float64Array) {
+    const n = re.length;
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = -2 * Math.PI / size;
+        for (let start = 0; start < n; start += size) {
+            for (let k = 0; k < size / 2; k++) {
+                const wr = Math.cos(angle * k);
+                const wi = Math.sin(angle * k);
+                const a = start + k;
+                const b = a + size / 2;
+                const tr = re[b] * wr - im[b] * wi;
+                const ti = re[b] * wi + im[b] * wr;
+                re[b] = re[a] - tr;
+                im[b] = im[a] - ti;
+                re[a] += tr;
+                im[a] += ti;
+            }
+        }
+    }
+}
+
+function fingerprint(buffer: StandInBuffer): Fingerprint {
+    const left = buffer.getChannelData(0);
+    const right = buffer.getChannelData(1);
+    const mono = left.map((l, i) => (l + right[i]) / 2);
+
+    const rms = Math.sqrt(mono.reduce((sum, v) => sum + v * v, 0) / mono.length);
+
+    // Power spectrum summed over half-overlapping Hann windows
+    const power = new Float64Array(FFT_SIZE / 2);
+    for (let start = 0; start < mono.length; start += FFT_SIZE / 2) {
+        const re = new Float64Array(FFT_SIZE);
+        const im = new Float64Array(FFT_SIZE);
+        for (let i = 0; i < FFT_SIZE && start + i < mono.length; i++) {
+            re[i] = mono[start + i] * (0.5 - 0.5 * Math.cos(2 * Math.PI * i / (FFT_SIZE - 1)));
+        }
+        fft(re, im);
+        for (let k = 0; k < power.length; k++) power[k] += re[k] * re[k] + im[k] * im[k];
+    }
+
+    // Strongest bin, refined by a parabola through its neighbours (log power)
+    let peak = 1;
+    for (let k = 2; k < power.length - 1; k++) {
+        if (power[k] > power[peak]) peak = k;
+    }
+    const [a, b, c] = [power[peak - 1], power[peak], power[peak + 1]].map(p => Math.log(p + 1e-20));
+    const offset = a - 2 * b + c === 0 ? 0 : 0.5 * (a - c) / (a - 2 * b + c);
+    const binHz = buffer.sampleRate / FFT_SIZE;
+
+    const total = power.reduce((sum, p) => sum + p, 0) + 1e-20;
+    const bandsDb = BAND_EDGES.slice(0, -1).map((low, band) => {
+        const high = BAND_EDGES[band + 1];
+        let bandPower = 0;
+        for (let k = Math.ceil(low / binHz); k < Math.min(high / binHz, power.length); k++) bandPower += power[k];
+        return 10 * Math.log10(bandPower / total + 1e-12);
+    });
+
+    const round = (v: number) => Math.round(v * 100) / 100;
+    return {
+        rmsDb: round(20 * Math.log10(rms + 1e-12)),
+        peakHz: round((peak + offset) * binHz),
+        bandsDb: bandsDb.map(round)
+    };
+}
+
+/**
+ * Differences beyond tolerance, described; empty when the render matches
+ */
+function compare(actual: Fingerprint, golden: Fingerprint): string[] {
+    const problems: string[] = [];
+    if (Math.abs(actual.rmsDb - golden.rmsDb) > TOLERANCE.RMS_DB) {
+        problems.push(`loudness ${golden.rmsDb} dB -> ${actual.rmsDb} dB`);
+    }
+    const cents = 1200 * Math.log2(actual.peakHz / golden.peakHz);
+    if (!(Math.abs(cents) <= TOLERANCE.PEAK_CENTS)) {
+        problems.push(`peak ${golden.peakHz} Hz -> ${actual.peakHz} Hz (${cents.toFixed(0)} cents)`);
+    }
+    golden.bandsDb.forEach((expected, band) => {
+        const value = actual.bandsDb[band];
+        if (Math.max(expected, value) < TOLERANCE.BAND_FLOOR_DB) return;
+        if (Math.abs(value - expected) > TOLERANCE.BAND_DB) {
+            const low = Math.round(BAND_EDGES[band]);
+            const high = Math.round(BAND_EDGES[band + 1]);
+            problems.push(`band ${low}-${high} Hz ${expected} dB -> ${value} dB`);
+        }
+    });
+    return problems;
+}
+
+// --- Files ---
+
+/**
+ * 16-bit PCM WAV
+ */
+function encodeWav(buffer: StandInBuffer): Buffer {
+    const channels = buffer.numberOfChannels;
+    const dataSize = buffer.length * channels * 2;
+    const wav = Buffer.alloc(44 + dataSize);
+
+    wav.write('RIFF', 0);
+    wav.writeUInt32LE(36 + dataSize, 4);
+    wav.write('WAVE', 8);
+    wav.write('fmt ', 12);
+    wav.writeUInt32LE(16, 16);
+    wav.writeUInt16LE(1, 20); // PCM
+    wav.writeUInt16LE(channels, 22);
+    wav.writeUInt32LE(buffer.sampleRate, 24);
+    wav.writeUInt32LE(buffer.sampleRate * channels * 2, 28);
+    wav.writeUInt16LE(channels * 2, 32);
+    wav.writeUInt16LE(16, 34);
+    wav.write('data', 36);
+    wav.writeUInt32LE(dataSize, 40);
+
+    const data = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+    let offset = 44;
+    for (let i = 0; i < buffer.length; i++) {
+        for (let c = 0; c < channels; c++) {
+            const sample = Math.max(-1, Math.min(1, data[c][i]));
+            wav.writeInt16LE(Math.round(sample * 32767), offset);
+            offset += 2;
+        }
+    }
+    return wav;
+}
+
+async function readGolden(name: string): Promise<Fingerprint | null> {
+    try {
+        return JSON.parse(await fs.readFile(path.join(GOLDEN_DIR, `${name}.json`), 'utf8'));
+    } catch {
+        return null;
+    }
+}
+
+async function main() {
+    const update = process.argv.includes('--update');
+    await fs.mkdir(RENDER_DIR, { recursive: true });
+    if (update) await fs.mkdir(GOLDEN_DIR, { recursive: true });
+
+    let failures = 0;
+    for (const audioCase of CASES) {
+        const buffer = await render(audioCase);
+        await fs.writeFile(path.join(RENDER_DIR, `${audioCase.name}.wav`), encodeWav(buffer));
+        const actual = fingerprint(buffer);
+
+        if (update) {
+            await fs.writeFile(path.join(GOLDEN_DIR, `${audioCase.name}.json`), JSON.stringify(actual, null, 4) + '\n');
+            console.log(`updated  ${audioCase.name}`);
+            continue;
+        }
+
+        const golden = await readGolden(audioCase.name);
+        const problems = golden ? compare(actual, golden) : ['no golden (run with --update)'];
+        if (problems.length === 0) {
+            console.log(`ok       ${audioCase.name}`);
+        } else {
+            failures++;
+            console.log(`CHANGED  ${audioCase.name}`);
+            for (const problem of problems) console.log(`           ${problem}`);
+        }
+    }
+
+    if (!update && failures > 0) {
+        console.log(`\n${failures} of ${CASES.length} sounds changed. Listen to audio-renders/, then rerun with --update if intended.`);
+        process.exitCode = 1;
+    }
+}
+
+main();
@@ -0,0 +1,397 @@
+/**
+ * Offline Web Audio stand-in for Node/Bun.
+ * Just enough of OfflineAudioContext for Synth: oscillators, gains, low/high-pass
+ * biquads, buffer sources and stereo panners, with AudioParam automation and
+ * audio-rate modulation of params (the pad LFOs). Renders in 128-frame blocks
+ * like the browser does. Oscillators are not band-limited, so renders only need
+ * to agree with earlier renders of this stand-in, not with a browser.
+ */
+
+const BLOCK_SIZE = 128;
+
+type Block = [Float32Array, Float32Array]; // Left, right
+
+const SILENCE: Block = [new Float32Array(BLOCK_SIZE), new Float32Array(BLOCK_SIZE)];
+
+interface ParamEvent {
+    type: 'set' | 'linear' | 'exponential';
+    value: number;
+    time: number;
+}
+
+export class StandInParam {
+    private context: StandInContext;
+    private intrinsic: number;
+    private events: ParamEvent[] = [];
+    private inputs: StandInNode[] = [];
+
+    constructor(context: StandInContext, defaultValue: number) {
+        this.context = context;
+        this.intrinsic = defaultValue;
+    }
+
+    get value(): number {
+        return this.valueAt(this.context.currentTime);
+    }
+
+    set value(value: number) {
+        if (this.events.length === 0) this.intrinsic = value;
+        else this.setValueAtTime(value, this.context.currentTime);
+    }
+
+    public setValueAtTime(value: number, time: number): this {
+        return this.insert({ type: 'set', value, time });
+    }
+
+    public linearRampToValueAtTime(value: number, time: number): this {
+        return this.insert({ type: 'linear', value, time });
+    }
+
+    public exponentialRampToValueAtTime(value: number, time: number): this {
+        return this.insert({ type: 'exponential', value, time });
+    }
+
+    public cancelScheduledValues(time: number): this {
+        this.events = this.events.filter(e => e.time < time);
+        return this;
+    }
+
+    public addInput(node: StandInNode) {
+        this.inputs.push(node);
+    }
+
+    /**
+     * Automation value at a time: the last event reached, or a ramp towards the next one
+     */
+    public valueAt(time: number): number {
+        let value = this.intrinsic;
+        let from = 0;
+        for (const event of this.events) {
+            if (event.time <= time) {
+                value = event.value;
+                from = event.time;
+                continue;
+            }
+            if (event.type === 'set') return value;
+
+            const progress = event.time > from ? (time - from) / (event.time - from) : 1;
+            if (event.type === 'linear') return value + (event.value - value) * progress;
+            // Exponential ramps need both ends non-zero and of the same sign; otherwise hold
+            if (value === 0 || value * event.value <= 0) return value;
+            return value * Math.pow(event.value / value, progress);
+        }
+        return value;
+    }
+
+    /**
+     * Per-frame values for one block: automation plus any connected modulators
+     */
+    public fill(frame: number): Float32Array {
+        const values = new Float32Array(BLOCK_SIZE);
+        const sampleRate = this.context.sampleRate;
+        for (let i = 0; i < BLOCK_SIZE; i++) {
+            values[i] = this.valueAt((frame + i) / sampleRate);
+        }
+        for (const input of this.inputs) {
+            const [left] = input.pull(frame);
+            for (let i = 0; i < BLOCK_SIZE; i++) values[i] += left[i];
+        }
+        return values;
+    }
+
+    private insert(event: ParamEvent): this {
+        let index = this.events.length;
+        while (index > 0 && this.events[index - 1].time > event.time) index--;
+        this.events.splice(index, 0, event);
+        return this;
+    }
+}
+
+export abstract class StandInNode {
+    protected context: StandInContext;
+    private inputs: StandInNode[] = [];
+    private cachedFrame: number = -1;
+    private cached: Block = SILENCE;
+
+    constructor(context: StandInContext) {
+        this.context = context;
+    }
+
+    public connect<T extends StandInNode | StandInParam>(target: T): T {
+        if (target instanceof StandInParam) target.addInput(this);
+        else target.inputs.push(this);
+        return target;
+    }
+
+    /**
+     * Output for the block starting at a frame; each block is computed once
+     */
+    public pull(frame: number): Block {
+        if (this.cachedFrame !== frame) {
+            this.cached = this.process(frame);
+            this.cachedFrame = frame;
+        }
+        return this.cached;
+    }
+
+    protected abstract process(frame: number): Block;
+
+    protected mixInputs(frame: number): Block {
+        const left = new Float32Array(BLOCK_SIZE);
+        const right = new Float32Array(BLOCK_SIZE);
+        for (const input of this.inputs) {
+            const [l, r] = input.pull(frame);
+            for (let i = 0; i < BLOCK_SIZE; i++) {
+                left[i] += l[i];
+                right[i] += r[i];
+            }
+        }
+        return [left, right];
+    }
+}
+
+abstract class StandInSource extends StandInNode {
+    protected startTime: number = Infinity;
+    protected stopTime: number = Infinity;
+
+    public start(when: number = 0) {
+        this.startTime = when;
+    }
+
+    public stop(when: number = 0) {
+        this.stopTime = when;
+    }
+
+    protected isSilent(frame: number): boolean {
+        const sampleRate = this.context.sampleRate;
+        return (frame + BLOCK_SIZE) / sampleRate <= this.startTime || frame / sampleRate >= this.stopTime;
+    }
+
+    protected isActive(time: number): boolean {
+        return time >= this.startTime && time < this.stopTime;
+    }
+}
+
+class StandInOscillator extends StandInSource {
+    public type: 'sine' | 'square' | 'sawtooth' | 'triangle' = 'sine';
+    public readonly frequency: StandInParam;
+    public readonly detune: StandInParam;
+    private phase: number = 0; // 0-1
+
+    constructor(context: StandInContext) {
+        super(context);
+        this.frequency = new StandInParam(context, 440);
+        this.detune = new StandInParam(context, 0);
+    }
+
+    protected process(frame: number): Block {
+        if (this.isSilent(frame)) return SILENCE;
+
+        const sampleRate = this.context.sampleRate;
+        const frequency = this.frequency.fill(frame);
+        const detune = this.detune.fill(frame);
+        const out = new Float32Array(BLOCK_SIZE);
+        for (let i = 0; i < BLOCK_SIZE; i++) {
+            if (!this.isActive((frame + i) / sampleRate)) continue;
+            out[i] = this.wave(this.phase);
+            this.phase += frequency[i] * Math.pow(2, detune[i] / 1200) / sampleRate;
+            this.phase -= Math.floor(this.phase);
+        }
+        return [out, out];
+    }
+
+    private wave(phase: number): number {
+        switch (this.type) {
+            case 'sine': return Math.sin(2 * Math.PI * phase);
+            case 'square': return phase < 0.5 ? 1 : -1;
+            case 'sawtooth': return phase < 0.5 ? 2 * phase : 2 * phase - 2;
+            case 'triangle': return phase < 0.25 ? 4 * phase : phase < 0.75 ? 2 - 4 * phase : 4 * phase - 4;
+        }
+    }
+}
+
+export class StandInBuffer {
+    public readonly sampleRate: number;
+    public readonly length: number;
+    public readonly numberOfChannels: number;
+    private channels: Float32Array[];
+
+    constructor(numberOfChannels: number, length: number, sampleRate: number) {
+        this.numberOfChannels = numberOfChannels;
+        this.length = length;
+        this.sampleRate = sampleRate;
+        this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+    }
+
+    get duration(): number {
+        return this.length / this.sampleRate;
+    }
+
+    public getChannelData(channel: number): Float32Array {
+        return this.channels[channel];
+    }
+}
+
+class StandInBufferSource extends StandInSource {
+    public buffer: StandInBuffer | null = null;
+    public loop: boolean = false;
+
+    protected process(frame: number): Block {
+        if (!this.buffer || this.isSilent(frame)) return SILENCE;
+
+        const sampleRate = this.context.sampleRate;
+        const left = this.buffer.getChannelData(0);
+        const right = this.buffer.getChannelData(Math.min(1, this.buffer.numberOfChannels - 1));
+        const outLeft = new Float32Array(BLOCK_SIZE);
+        const outRight = new Float32Array(BLOCK_SIZE);
+        for (let i = 0; i < BLOCK_SIZE; i++) {
+            const time = (frame + i) / sampleRate;
+            if (!this.isActive(time)) continue;
+            let position = Math.floor((time - this.startTime) * this.buffer.sampleRate);
+            if (this.loop) position %= this.buffer.length;
+            if (position >= this.buffer.length) continue;
+            outLeft[i] = left[position];
+            outRight[i] = right[position];
+        }
+        return [outLeft, outRight];
+    }
+}
+
+class StandInGain extends StandInNode {
+    public readonly gain: StandInParam;
+
+    constructor(context: StandInContext) {
+        super(context);
+        this.gain = new StandInParam(context, 1);
+    }
+
+    protected process(frame: number): Block {
+        const [left, right] = this.mixInputs(frame);
+        const gain = this.gain.fill(frame);
+        for (let i = 0; i < BLOCK_SIZE; i++) {
+            left[i] *= gain[i];
+            right[i] *= gain[i];
+        }
+        return [left, right];
+    }
+}
+
+/**
+ * Lowpass/highpass biquad with the Web Audio coefficient formulas (Q in dB);
+ * coefficients are taken once per block
+ */
+class StandInBiquad extends StandInNode {
+    public type: 'lowpass' | 'highpass' = 'lowpass';
+    public readonly frequency: StandInParam;
+    public readonly Q: StandInParam;
+    private state = [[0, 0, 0, 0], [0, 0, 0, 0]]; // x1, x2, y1, y2 per channel
+
+    constructor(context: StandInContext) {
+        super(context);
+        this.frequency = new StandInParam(context, 350);
+        this.Q = new StandInParam(context, 1);
+    }
+
+    protected process(frame: number): Block {
+        const input = this.mixInputs(frame);
+        const time = frame / this.context.sampleRate;
+        const w0 = 2 * Math.PI * Math.min(this.frequency.valueAt(time), this.context.sampleRate / 2 - 1) / this.context.sampleRate;
+        const alpha = Math.sin(w0) / (2 * Math.pow(10, this.Q.valueAt(time) / 20));
+        const cos = Math.cos(w0);
+
+        const [b0, b1, b2] = this.type === 'lowpass'
+            ? [(1 - cos) / 2, 1 - cos, (1 - cos) / 2]
+            : [(1 + cos) / 2, -(1 + cos), (1 + cos) / 2];
+        const a0 = 1 + alpha;
+        const a1 = -2 * cos;
+        const a2 = 1 - alpha;
+
+        input.forEach((samples, channel) => {
+            const s = this.state[channel];
+            for (let i = 0; i < BLOCK_SIZE; i++) {
+                const x = samples[i];
+                const y = (b0 * x + b1 * s[0] + b2 * s[1] - a1 * s[2] - a2 * s[3]) / a0;
+                s[1] = s[0];
+                s[0] = x;
+                s[3] = s[2];
+                s[2] = y;
+                samples[i] = y;
+            }
+        });
+        return input;
+    }
+}
+
+/**
+ * Equal-power panner for mono sources (left and right inputs are summed first)
+ */
+class StandInStereoPanner extends StandInNode {
+    public readonly pan: StandInParam;
+
+    constructor(context: StandInContext) {
+        super(context);
+        this.pan = new StandInParam(context, 0);
+    }
+
+    protected process(frame: number): Block {
+        const [left, right] = this.mixInputs(frame);
+        const pan = this.pan.fill(frame);
+        for (let i = 0; i < BLOCK_SIZE; i++) {
+            const mono = (left[i] + right[i]) / 2;
+            const angle = (Math.max(-1, Math.min(1, pan[i])) + 1) * Math.PI / 4;
+            left[i] = mono * Math.cos(angle);
+            right[i] = mono * Math.sin(angle);
+        }
+        return [left, right];
+    }
+}
+
+class StandInDestination extends StandInNode {
+    protected process(frame: number): Block {
+        return this.mixInputs(frame);
+    }
+}
+
+/**
+ * Stand-in for OfflineAudioContext(2, length, sampleRate). Build the graph at
+ * currentTime 0, then startRendering().
+ */
+export class StandInContext {
+    public readonly sampleRate: number;
+    public readonly length: number;
+    public readonly destination: StandInNode;
+    public currentTime: number = 0;
+
+    constructor(numberOfChannels: number, length: number, sampleRate: number) {
+        if (numberOfChannels !== 2) throw new Error('The stand-in renders stereo only');
+        this.length = length;
+        this.sampleRate = sampleRate;
+        this.destination = new StandInDestination(this);
+    }
+
+    public createOscillator() { return new StandInOscillator(this); }
+    public createGain() { return new StandInGain(this); }
+    public createBiquadFilter() { return new StandInBiquad(this); }
+    public createBufferSource() { return new StandInBufferSource(this); }
+    public createStereoPanner() { return new StandInStereoPanner(this); }
+
+    public createBuffer(numberOfChannels: number, length: number, sampleRate: number) {
+        return new StandInBuffer(numberOfChannels, length, sampleRate);
+    }
+
+    public async startRendering(): Promise<StandInBuffer> {
+        const output = new StandInBuffer(2, this.length, this.sampleRate);
+        const left = output.getChannelData(0);
+        const right = output.getChannelData(1);
+
+        for (let frame = 0; frame < this.length; frame += BLOCK_SIZE) {
+            this.currentTime = frame / this.sampleRate;
+            const [l, r] = this.destination.pull(frame);
+            const count = Math.min(BLOCK_SIZE, this.length - frame);
+            left.set(l.subarray(0, count), frame);
+            right.set(r.subarray(0, count), frame);
+        }
+        this.currentTime = this.length / this.sampleRate;
+        return output;
+    }
+}
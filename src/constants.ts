@@ -1,16 +1,29 @@
 
 export const CONFIG = {
+    SIMULATION: {
+        TICK_RATE: 60,          // Fixed simulation steps per second, independent of display refresh
+        MAX_FRAME_TIME: 0.25,   // Clamp long frames (tab switch, hitch) to avoid a spiral of catch-up steps
+    },
     GRID: {
         CELL_SIZE: 1.0, // World units
         FIXED_SIDE: 20, // One dimension is 100 units
-        TARGET_OBSTACLE_DENSITY: 0.05, // 10%
+        TARGET_OBSTACLE_DENSITY: 0.05, // 5% of cells
+        OBSTACLES: {
+            START_CLEAR_RADIUS: 4.0, // Keep the snake's spawn coil free
+            CLUSTER_SIZE: { MIN: 2, MAX: 6 }, // Cells per random-walk cluster
+            MAX_ATTEMPTS: 200,
+            APPEAR_SPEED: 1.5 // uAppear units per second
+        }
     },
     SNAKE: {
         INITIAL_NODES: 30,    // Number of visible body segments
+        MAX_NODES: 199,       // Hard cap (bounded by the uPoints uniform array in SnakeVisuals)
+        GROWTH_PER_FRUIT: 3,  // Segments added per fruit eaten
         NODE_SPACING: 0.45,   // Distance between visual nodes
         SPEED: 14,
         CIRCLE_RADIUS: 0.55, // Radius of the snake's body segments
         SAFETY_MARGIN: 0.1, // Extra buffer when checking collisions (raycasting)
+        COIL_GAP: 2.2, // Spacing of the spawn coil's turns, in body radii
         PULSE_SPEED: 4.0, // Speed of the pulsing animation
         PULSE_AMPLITUDE: 0.05, // Amplitude of body size fluctuation
         HEAD_COLOR: 0x00ff00, // Green
@@ -22,7 +35,19 @@ export const CONFIG = {
             DURATION: 1.5, // Total time active
             COLOR: 0x44dd44  // Green pulse (broccoli eating!)
         },
-        SPINE_COLOR: 0x228833  // Dark green spine
+        SPINE_COLOR: 0x228833, // Dark green spine
+        EDIBLE_SIZE_PER_NODE: 0.12 // Organisms with less total blob radius than nodes * this can be eaten
+    },
+    MULTIPLAYER: {
+        // Enabled with ?players=2..4. Snakes block each other and compete for fruit.
+        MAX_PLAYERS: 4,
+        PLAYER_COLORS: [0x44dd44, 0x44aaff, 0xff5566, 0xffcc33], // Body tint and HUD colour per player
+        HUE_RANGE: 0.12,     // Hue spread along each body (single player cycles the full rainbow)
+        SPAWN_OFFSET: 0.25,  // Spawn points as a fraction of world width/depth from the centre
+    },
+    CLASSIC: {
+        // Enabled with ?mode=classic. Head hitting own body or an organism ends the run.
+        NECK_SKIP_NODES: 5, // Body colliders behind the head ignored for self-collision
     },
     COLORS: {
         BACKGROUND: 0x111111,
@@ -43,6 +68,18 @@ export const CONFIG = {
             PUPIL_SPEED: 0.15,
             BLINK_INTERVAL: { MIN: 2.0, MAX: 8.0 }
         },
+        LIFECYCLE: {
+            LIFETIME: { MIN: 25.0, MAX: 60.0 }, // Seconds before an organism starts to vanish
+            APPEAR_TIME: 0.8,     // Seconds to grow in after spawning
+            VANISH_TIME: 1.2      // Seconds to shrink away before despawning
+        },
+        FORAGE: {
+            SENSE_RADIUS: 8.0,    // How far organisms notice fruit
+            TURN_RATE: 0.1,       // Fraction of the angle to the fruit turned per tick
+            MAX_BLOBS: 20,        // OrganismVisuals draws at most 20 blobs
+            SPLIT_AT: 14,         // Blob count at which an organism divides in two
+            MAX_POPULATION: 16    // No splitting beyond this many organisms
+        },
         SCARE: {
             RADIUS: 5.0,          // How far the scare effect reaches
             DURATION: 1.0,        // How long organisms stay scared (seconds)
@@ -52,6 +89,14 @@ export const CONFIG = {
     FRUIT: {
         SIZE_CELLS: 3,
         TARGET_COUNT: 5,
+        // Relative spawn chance, indexed by FruitType (BROCCOLI_A, BROCCOLI_B, SPEED, GHOST, MAGNET, SHRINK)
+        SPAWN_WEIGHTS: [40, 40, 5, 5, 5, 5],
+        POWER_UPS: {
+            SPEED: { DURATION: 6.0, MULTIPLIER: 1.6 },
+            GHOST: { DURATION: 6.0 },              // Organisms no longer block the snake
+            MAGNET: { DURATION: 8.0, RADIUS: 8.0, PULL_SPEED: 6.0 }, // Fruit within RADIUS drifts to the head
+            SHRINK: { SEGMENTS: 12, MIN_NODES: 10 } // Instant
+        },
         VIRUS: {
             ARMS: { MIN: 3, MAX: 7 },
             ARM_LENGTH: { MIN: 0.2, MAX: 0.6 },
@@ -59,6 +104,26 @@ export const CONFIG = {
             COLORS: [0xff2244, 0xff4422] // Crimson, Tomato
         }
     },
+    SCORE: {
+        FRUIT_POINTS: [10, 15, 20, 20, 20, 20], // Indexed by FruitType
+        COMBO: {
+            WINDOW: 3.0,      // Seconds to eat the next fruit and keep the combo
+            MAX_MULTIPLIER: 8
+        },
+        SCARED_BONUS: 5,      // Extra points per organism scared at the moment of eating
+        ORGANISM_POINTS_PER_BLOB: 5, // Eating an organism
+        HIGH_SCORE_COUNT: 10,
+        STORAGE_KEY: 'aria-snake.highscores'
+    },
+    INPUT: {
+        STICK_DEADZONE: 0.1,
+        SLOTS_PER_ACTION: 2,  // Keys (and pad buttons) that can trigger one action
+        STORAGE_KEY: 'aria-snake.bindings'
+    },
+    CAMPAIGN: {
+        // Enabled with ?campaign (optionally &level=N to pick an unlocked level)
+        STORAGE_KEY: 'aria-snake.campaign'
+    },
     CAMERA: {
         FOV: 60,
         HEIGHT_OFFSET: 100, // Distance from grid to fit 100 units (approx 50 / tan(30) = 86.6)
@@ -70,27 +135,41 @@ export const CONFIG = {
         DARKNESS: 0.4, // Lower is darker
     },
     AUDIO: {
+        // Defaults; the settings screen changes them and keeps them in localStorage
         MASTER_VOLUME: 1.0,
         MUSIC_VOLUME: 0.9,
-        SFX_VOLUME: 0.5
+        SFX_VOLUME: 0.5,
+        FADE_TIME: 0.5,       // Seconds for the music to fade out on pause / hidden tab, and back in
+        PAN_AMOUNT: 0.8,      // Stereo pan of effects at the screen edge (1 = hard left/right)
+        STORAGE_KEY: 'aria-snake.audio',
+        SOUND_PACK_URL: 'sounds/manifest.json', // Samples replacing synth sounds; ?soundpack=<url> for another pack
+        MUSIC: {
+            // Adaptive music: Game reports speed, combo and growth each tick
+            TEMPO_PER_COMBO: 0.05,          // Extra tempo per combo multiplier step
+            MAX_TEMPO: 1.8,                 // Tempo factor cap (1 = normal)
+            LAYER_GROWTH: [0.15, 0.4, 0.7], // Snake growth (0-1) adding harmony, pad, hi-hats
+            PAD_VOLUME: 0.6,                // Pad layer gain once it is in
+            LEVEL_KEYS: [0, 5, -3, 2, -5, 4] // Semitones; sandbox first, then campaign levels in order
+        }
     },
     PARTICLES: {
-        MAX_COUNT: 400,
-        BURST_COUNT: 80,
-        SIZE: { MIN: 15, MAX: 35 },
-        LIFE: { MIN: 0.5, MAX: 1.0 },
-        SPEED: { MIN: 12, MAX: 25 },
-        UP_SPEED: { MIN: 10, MAX: 20 },
-        GRAVITY: -35
+        // Effect definitions live in src/effects/particles.json
+        MAX_COUNT: 4000,
+        MAX_TRAIL_LENGTH: 12,  // Longest trail an effect may ask for
+        DRAG: 8,               // Velocity decay rate per second
+        GROUND_HEIGHT: 0.15,   // Particles bounce off this height
+        BOUNCE: 0.3,           // Fraction of the depth below ground reflected back up
+        TRAIL_SPACING: 1 / 60  // Seconds between trail points
     },
     BUTTON_EFFECTS: {
+        // Particles are the button-x..button-b effects in src/effects/particles.json
         // X button (keyboard W) - Blue spiral burst
-        X: { HUE: 0.6, COUNT: 40, SIZE: 20, SPEED: 15, PITCH: 400 },
-        // Y button (keyboard A) - Yellow ring burst  
-        Y: { HUE: 0.15, COUNT: 50, SIZE: 25, SPEED: 20, PITCH: 500 },
+        X: { PITCH: 400 },
+        // Y button (keyboard A) - Yellow ring burst
+        Y: { PITCH: 500 },
         // A button (keyboard S) - Green fountain
-        A: { HUE: 0.33, COUNT: 35, SIZE: 18, SPEED: 18, PITCH: 300 },
+        A: { PITCH: 300 },
         // B button (keyboard D) - Red explosion
-        B: { HUE: 0.0, COUNT: 60, SIZE: 30, SPEED: 25, PITCH: 250 }
+        B: { PITCH: 250 }
     }
 };
@@ -1,21 +1,62 @@
 /**
  * Procedural Audio System
- * Generates background music and sound effects using Web Audio API
+ * Generates background music and sound effects using Web Audio API.
+ * Owns the context, buses, volumes and music scheduling; the sounds
+ * themselves come from Synth (or a sound pack sample).
  */
 
 import { CONFIG } from '../constants';
+import { RNG } from '../utils/Random';
+import { AudioSettings } from './AudioSettings';
+import type { AudioBus } from './AudioSettings';
+import { SoundPack } from './SoundPack';
+import type { SoundEvent, Sample } from './SoundPack';
+import { Synth } from './Synth';
+import type { EffectButton } from './Synth';
+
+const rng = RNG.stream('audio');
+
+const VOLUME_RAMP_TIME = 0.05; // Seconds; slider moves and mute
+
+/**
+ * What the music reacts to (Audio.setIntensity)
+ */
+export interface MusicIntensity {
+    speed: number;  // Snake speed multiplier (1 = normal)
+    combo: number;  // Score multiplier
+    growth: number; // 0-1: how far the snake has grown from its start length to the cap
+}
 
 export class Audio {
     private audioContext: AudioContext | null = null;
+    private synth: Synth | null = null;
     private masterGain: GainNode | null = null;
     private bgGain: GainNode | null = null;
     private sfxGain: GainNode | null = null;
 
     private bgOscillators: OscillatorNode[] = [];
     private isPlaying: boolean = false;
-
-    constructor() {
-        // Audio context is created on first user interaction
+    private musicPaused: boolean = false;
+    private padGain: GainNode | null = null; // Pad intensity layer, faded in as the snake grows
+    private padVoice: GainNode | null = null; // The current pad chord, between its oscillators and padGain (for key crossfades)
+    private intensity: MusicIntensity = { speed: 1, combo: 1, growth: 0 };
+    private layers: number = 0;    // Extra layers playing (see CONFIG.AUDIO.MUSIC.LAYER_GROWTH)
+    private transpose: number = 0; // Semitones; the key of the current level
+    private fieldHalfWidth: number = 1; // World units from the centre to a screen edge (full pan)
+    private hidden: boolean = false; // Tab in the background: music faded out
+    private settings: AudioSettings = new AudioSettings();
+    // Bumped whenever the melodic sequence stops, so a pending note timer of an old sequence ends it
+    private sequenceId: number = 0;
+
+    // Optional samples replacing synth sounds event by event
+    private soundPack: SoundPack = new SoundPack();
+    private soundPackUrl: string | null;
+    private soundPackLoaded: Promise<void> = Promise.resolve();
+    private musicLoop: AudioBufferSourceNode | null = null;
+
+    constructor(soundPackUrl: string | null = null) {
+        // Audio context is created on first user interaction; the sound pack is decoded with it
+        this.soundPackUrl = soundPackUrl;
     }
 
     private async init() {
@@ -28,422 +69,356 @@ export class Audio {
         }
 
         this.audioContext = new AudioContext();
+        this.synth = new Synth(this.audioContext, rng);
 
         // Master gain
         this.masterGain = this.audioContext.createGain();
-        this.masterGain.gain.value = CONFIG.AUDIO.MASTER_VOLUME;
         this.masterGain.connect(this.audioContext.destination);
 
         // Background music gain
         this.bgGain = this.audioContext.createGain();
-        this.bgGain.gain.value = CONFIG.AUDIO.MUSIC_VOLUME;
         this.bgGain.connect(this.masterGain);
 
         // SFX gain
         this.sfxGain = this.audioContext.createGain();
-        this.sfxGain.gain.value = CONFIG.AUDIO.SFX_VOLUME;
         this.sfxGain.connect(this.masterGain);
 
+        // Pad layer gain, inside the music bus
+        this.padGain = this.audioContext.createGain();
+        this.padGain.gain.value = 0;
+        this.padGain.connect(this.bgGain);
+
+        // Saved volumes, set directly (no fade in from silence)
+        this.masterGain.gain.value = this.getTargetGain('master');
+        this.bgGain.gain.value = this.getTargetGain('music');
+        this.sfxGain.gain.value = this.getTargetGain('sfx');
+
+        // Effects use the synth until (and unless) their sample is ready
+        if (this.soundPackUrl) this.soundPackLoaded = this.soundPack.load(this.audioContext, this.soundPackUrl);
+
         // Resume the context (required after user gesture)
         await this.audioContext.resume();
     }
 
     /**
      * Start melodic background music
-     * Creates a gentle arpeggio pattern with evolving harmonies
+     * Creates a gentle arpeggio pattern with evolving harmonies; tempo and
+     * layers follow setIntensity, the key follows setKey
      */
     public async startBackgroundMusic() {
         await this.init();
         if (!this.audioContext || !this.bgGain || this.isPlaying) return;
 
         this.isPlaying = true;
+        this.musicPaused = false;
+        this.applyVolumes(CONFIG.AUDIO.FADE_TIME);
+
+        // A music loop from the sound pack replaces the procedural music
+        const sequenceId = this.sequenceId;
+        await this.soundPackLoaded;
+        if (sequenceId !== this.sequenceId) return; // Paused or stopped meanwhile
+        const loop = this.soundPack.get('music');
+        if (loop) {
+            this.musicLoop = this.playSample(loop, this.bgGain, true);
+            return;
+        }
 
-        // Start the melodic sequence only (no pad layer to avoid buzzing)
+        // The pad stays silent until the snake has grown enough (it buzzes at full volume)
+        this.addPadLayer();
+        this.applyPadLevel();
         this.playMelodicSequence();
     }
 
-    private playMelodicSequence() {
-        if (!this.audioContext || !this.bgGain) return;
-
-        // Extended scale: C major pentatonic across 2 octaves
-        const notes = [
-            196.00, 220.00, 261.63, 293.66, 329.63,  // G3, A3, C4, D4, E4
-            392.00, 440.00, 523.25, 587.33, 659.25,  // G4, A4, C5, D5, E5
-            783.99, 880.00                            // G5, A5
-        ];
-
-        // More varied arpeggio patterns (indices into notes array)
-        const patterns = [
-            [2, 4, 6, 7],     // C4, E4, A4, C5
-            [3, 5, 7, 9],     // D4, G4, C5, E5
-            [0, 2, 5, 7],     // G3, C4, G4, C5
-            [4, 6, 8, 10],    // E4, A4, D5, G5
-            [1, 4, 6, 8],     // A3, E4, A4, D5
-            [2, 5, 7, 10],    // C4, G4, C5, G5
-            [3, 6, 8, 9],     // D4, A4, D5, E5
-            [0, 4, 7, 9],     // G3, E4, C5, E5
-        ];
-
-        // Bass notes that complement the patterns
-        const bassNotes = [65.41, 73.42, 82.41, 98.00]; // C2, D2, E2, G2
-
-        // Start from random pattern for variety
-        let patternIndex = Math.floor(Math.random() * patterns.length);
-        let noteIndex = 0;
-        let measureCount = 0;
+    /**
+     * Stop scheduling music and fade it out (pause menu, title screen)
+     */
+    public pauseMusic() {
+        if (!this.isPlaying) return;
+        this.isPlaying = false;
+        this.musicPaused = true;
+        this.sequenceId++;
+        this.applyVolumes(CONFIG.AUDIO.FADE_TIME);
+        this.stopMusicSources(CONFIG.AUDIO.FADE_TIME);
+    }
 
-        const playNote = () => {
-            if (!this.audioContext || !this.bgGain || !this.isPlaying) return;
+    /**
+     * Pick the music back up after pauseMusic (a fresh sequence, not mid-pattern)
+     */
+    public resumeMusic() {
+        if (!this.musicPaused) return;
+        this.startBackgroundMusic();
+    }
 
-            const pattern = patterns[patternIndex];
-            let freq = notes[pattern[noteIndex]];
+    /**
+     * Game intensity: speed and combo drive the tempo, growth adds layers
+     */
+    public setIntensity(intensity: MusicIntensity) {
+        this.intensity = intensity;
 
-            // Occasional random variation (10% chance to pick nearby note)
-            if (Math.random() < 0.1) {
-                const variation = Math.random() < 0.5 ? -1 : 1;
-                const newIndex = Math.max(0, Math.min(notes.length - 1, pattern[noteIndex] + variation));
-                freq = notes[newIndex];
-            }
+        const layers = CONFIG.AUDIO.MUSIC.LAYER_GROWTH.filter(growth => intensity.growth >= growth).length;
+        if (layers !== this.layers) {
+            this.layers = layers;
+            this.applyPadLevel();
+        }
+    }
 
-            // Fast energetic tempo
-            const baseInterval = 0.15 + Math.random() * 0.05;
-            const noteDuration = 0.25 + Math.random() * 0.1;
+    /**
+     * Shift the music to another key (semitones from C major); the pad is rebuilt in the new key
+     */
+    public setKey(semitones: number) {
+        if (semitones === this.transpose) return;
+        this.transpose = semitones;
+        if (this.isPlaying && !this.musicLoop && this.audioContext && this.padVoice) {
+            // Crossfade: the old chord fades out over the same time the new one fades in
+            const now = this.audioContext.currentTime;
+            const gain = this.padVoice.gain;
+            gain.cancelScheduledValues(now);
+            gain.setValueAtTime(gain.value, now);
+            gain.linearRampToValueAtTime(0, now + CONFIG.AUDIO.FADE_TIME);
+            this.stopMusicSources(CONFIG.AUDIO.FADE_TIME);
+            this.addPadLayer(CONFIG.AUDIO.FADE_TIME);
+        }
+    }
 
-            // Create oscillator for the note
-            const osc = this.audioContext.createOscillator();
-            osc.type = 'sine';
-            osc.frequency.value = freq;
-            osc.detune.value = (Math.random() - 0.5) * 6;
+    /**
+     * Short musical flourish on the music bus, in the current key
+     */
+    public playStinger(kind: 'fruit' | 'scare') {
+        if (!this.audioContext || !this.synth || !this.bgGain || !this.isPlaying) return;
+        this.synth.stinger(kind, this.transpose, this.bgGain, this.audioContext.currentTime);
+    }
 
-            // Envelope 
-            const envelope = this.audioContext.createGain();
-            const now = this.audioContext.currentTime;
-            const volume = 0.08 + Math.random() * 0.04; // Slight volume variation
-            envelope.gain.setValueAtTime(0, now);
-            envelope.gain.linearRampToValueAtTime(volume, now + 0.04);
-            envelope.gain.exponentialRampToValueAtTime(volume * 0.5, now + noteDuration * 0.6);
-            envelope.gain.exponentialRampToValueAtTime(0.001, now + noteDuration);
-
-            // Filter
-            const filter = this.audioContext.createBiquadFilter();
-            filter.type = 'lowpass';
-            filter.frequency.value = 1800 + Math.random() * 400;
-
-            osc.connect(filter);
-            filter.connect(envelope);
-            envelope.connect(this.bgGain);
-
-            osc.start(now);
-            osc.stop(now + noteDuration);
-
-            // Play bass note on first beat of pattern
-            if (noteIndex === 0) {
-                this.playBassNote(bassNotes[patternIndex % bassNotes.length], now);
-            }
+    private getTempo(): number {
+        const { speed, combo } = this.intensity;
+        const music = CONFIG.AUDIO.MUSIC;
+        return Math.min(speed * (1 + (combo - 1) * music.TEMPO_PER_COMBO), music.MAX_TEMPO);
+    }
 
-            // Advance to next note
-            noteIndex++;
-            if (noteIndex >= pattern.length) {
-                noteIndex = 0;
-                measureCount++;
-
-                // Change pattern - sometimes random, sometimes sequential
-                if (measureCount % 4 === 0 && Math.random() < 0.3) {
-                    patternIndex = Math.floor(Math.random() * patterns.length);
-                } else {
-                    patternIndex = (patternIndex + 1) % patterns.length;
-                }
-            }
+    private playMelodicSequence() {
+        if (!this.synth) return;
+        const sequenceId = this.sequenceId;
+        const state = this.synth.startSequence();
+
+        const playNote = () => {
+            if (!this.audioContext || !this.synth || !this.bgGain || !this.isPlaying || sequenceId !== this.sequenceId) return;
+
+            const params = { layers: this.layers, transpose: this.transpose, tempo: this.getTempo() };
+            const interval = this.synth.sequencerStep(state, params, this.bgGain, this.audioContext.currentTime);
 
             // Schedule next note
             if (this.isPlaying) {
-                setTimeout(playNote, baseInterval * 1000);
+                setTimeout(playNote, interval * 1000);
             }
         };
 
         playNote();
     }
 
-    private playBassNote(freq: number, startTime: number) {
-        if (!this.audioContext || !this.bgGain) return;
-
-        const osc = this.audioContext.createOscillator();
-        osc.type = 'sine';
-        osc.frequency.value = freq;
-
-        const envelope = this.audioContext.createGain();
-        envelope.gain.setValueAtTime(0, startTime);
-        envelope.gain.linearRampToValueAtTime(0.08, startTime + 0.03);
-        envelope.gain.exponentialRampToValueAtTime(0.03, startTime + 0.3);
-        envelope.gain.exponentialRampToValueAtTime(0.001, startTime + 0.5);
-
-        const filter = this.audioContext.createBiquadFilter();
-        filter.type = 'lowpass';
-        filter.frequency.value = 300;
+    /**
+     * Sustained pad chord (intensity layer 2), audible through padGain;
+     * fades in over fadeTime seconds
+     */
+    private addPadLayer(fadeTime: number = 0) {
+        if (!this.audioContext || !this.synth || !this.padGain) return;
 
-        osc.connect(filter);
-        filter.connect(envelope);
-        envelope.connect(this.bgGain);
+        const now = this.audioContext.currentTime;
+        const voice = this.audioContext.createGain();
+        voice.gain.setValueAtTime(fadeTime > 0 ? 0 : 1, now);
+        if (fadeTime > 0) voice.gain.linearRampToValueAtTime(1, now + fadeTime);
+        voice.connect(this.padGain);
+        this.padVoice = voice;
 
-        osc.start(startTime);
-        osc.stop(startTime + 0.6);
+        this.bgOscillators.push(...this.synth.pad(this.transpose, voice, now));
     }
 
-    private addPadLayer() {
-        if (!this.audioContext || !this.bgGain) return;
-
-        // Soft pad chord: C major with added 9th for dreamy feel
-        const padFreqs = [130.81, 164.81, 196.00, 293.66]; // C3, E3, G3, D4
-
-        padFreqs.forEach((freq, i) => {
-            const osc = this.audioContext!.createOscillator();
-            osc.type = 'sine';
-            osc.frequency.value = freq;
-            osc.detune.value = (Math.random() - 0.5) * 6;
-
-            const gain = this.audioContext!.createGain();
-            gain.gain.value = 0.03; // Very soft
+    /**
+     * Fade the pad in or out to match the current layer count
+     */
+    private applyPadLevel() {
+        if (!this.audioContext || !this.padGain) return;
 
-            // Slow volume modulation for movement
-            const lfo = this.audioContext!.createOscillator();
-            lfo.type = 'sine';
-            lfo.frequency.value = 0.15 + i * 0.05;
+        const now = this.audioContext.currentTime;
+        const target = this.layers >= 2 ? CONFIG.AUDIO.MUSIC.PAD_VOLUME : 0;
+        this.padGain.gain.cancelScheduledValues(now);
+        this.padGain.gain.setValueAtTime(this.padGain.gain.value, now);
+        this.padGain.gain.linearRampToValueAtTime(target, now + CONFIG.AUDIO.FADE_TIME * 2);
+    }
 
-            const lfoGain = this.audioContext!.createGain();
-            lfoGain.gain.value = 0.015;
+    /**
+     * Stop the pad oscillators (or the sample music loop) once a fade of the given length is over
+     */
+    private stopMusicSources(delay: number) {
+        if (!this.audioContext) return;
 
-            lfo.connect(lfoGain);
-            lfoGain.connect(gain.gain);
+        const when = this.audioContext.currentTime + delay;
+        this.bgOscillators.forEach(osc => osc.stop(when));
+        this.bgOscillators = [];
+        this.musicLoop?.stop(when);
+        this.musicLoop = null;
+    }
 
-            // Low-pass for softness
-            const filter = this.audioContext!.createBiquadFilter();
-            filter.type = 'lowpass';
-            filter.frequency.value = 600;
+    /**
+     * Play a sound pack sample into the given bus (or panner)
+     */
+    private playSample(sample: Sample, output: AudioNode, loop: boolean = false): AudioBufferSourceNode {
+        const source = this.audioContext!.createBufferSource();
+        source.buffer = sample.buffer;
+        source.loop = loop;
+
+        const gain = this.audioContext!.createGain();
+        gain.gain.value = sample.volume;
+
+        source.connect(gain);
+        gain.connect(output);
+        source.start();
+        return source;
+    }
 
-            osc.connect(filter);
-            filter.connect(gain);
-            gain.connect(this.bgGain!);
+    /**
+     * The sample for an event, played if the sound pack has one. False: use the synth.
+     */
+    private playEventSample(event: SoundEvent, output: AudioNode): boolean {
+        const sample = this.soundPack.get(event);
+        if (!sample) return false;
+        this.playSample(sample, output);
+        return true;
+    }
 
-            osc.start();
-            lfo.start();
-            this.bgOscillators.push(osc);
-        });
+    /**
+     * Width of the visible world, so effects pan to where they happen on screen
+     */
+    public setSoundField(width: number) {
+        this.fieldHalfWidth = Math.max(width / 2, 1);
     }
 
     /**
-     * Play fruit eating sound effect
-     * A satisfying "blip/pop" sound with harmonic overtones
+     * Play fruit eating sound effect at world x
      */
-    public async playEatSound() {
+    public async playEatSound(x: number = 0) {
         await this.init();
-        if (!this.audioContext || !this.sfxGain) return;
-
-        const now = this.audioContext.currentTime;
+        if (!this.audioContext || !this.synth) return;
 
-        // Main tone - rising pitch "blip"
-        const osc1 = this.audioContext.createOscillator();
-        osc1.type = 'sine';
-        osc1.frequency.setValueAtTime(300, now);
-        osc1.frequency.exponentialRampToValueAtTime(600, now + 0.08);
-        osc1.frequency.exponentialRampToValueAtTime(800, now + 0.12);
-
-        // Harmonic overtone
-        const osc2 = this.audioContext.createOscillator();
-        osc2.type = 'sine';
-        osc2.frequency.setValueAtTime(600, now);
-        osc2.frequency.exponentialRampToValueAtTime(1200, now + 0.08);
-
-        // Envelope
-        const envelope = this.audioContext.createGain();
-        envelope.gain.setValueAtTime(0, now);
-        envelope.gain.linearRampToValueAtTime(0.4, now + 0.02);
-        envelope.gain.exponentialRampToValueAtTime(0.01, now + 0.2);
-
-        // Second envelope for overtone (faster decay)
-        const envelope2 = this.audioContext.createGain();
-        envelope2.gain.setValueAtTime(0, now);
-        envelope2.gain.linearRampToValueAtTime(0.15, now + 0.01);
-        envelope2.gain.exponentialRampToValueAtTime(0.01, now + 0.1);
-
-        osc1.connect(envelope);
-        osc2.connect(envelope2);
-        envelope.connect(this.sfxGain);
-        envelope2.connect(this.sfxGain);
-
-        osc1.start(now);
-        osc2.start(now);
-        osc1.stop(now + 0.25);
-        osc2.stop(now + 0.15);
+        const output = this.createPanner(x);
+        if (this.playEventSample('eat', output)) return;
+        this.synth.eat(output, this.audioContext.currentTime);
     }
 
     /**
-     * Play button effect sound
-     * Each button has a unique musical sound
+     * Play button effect sound at world x
      */
-    public async playButtonSound(button: 'X' | 'Y' | 'A' | 'B') {
+    public async playButtonSound(button: EffectButton, x: number = 0) {
         await this.init();
-        if (!this.audioContext || !this.sfxGain) return;
+        if (!this.audioContext || !this.synth) return;
 
-        const now = this.audioContext.currentTime;
-        const pitch = CONFIG.BUTTON_EFFECTS[button].PITCH;
-
-        switch (button) {
-            case 'X': // Blue - shimmer arpeggio up
-                this.playArpeggio(now, [pitch, pitch * 1.25, pitch * 1.5, pitch * 2], 0.05);
-                break;
-            case 'Y': // Yellow - bright chord
-                this.playChord(now, [pitch, pitch * 1.25, pitch * 1.5], 0.3);
-                break;
-            case 'A': // Green - bouncy boing
-                this.playBoing(now, pitch);
-                break;
-            case 'B': // Red - deep thump
-                this.playThump(now, pitch);
-                break;
-        }
+        const output = this.createPanner(x);
+        if (this.playEventSample(`button${button}`, output)) return;
+        this.synth.button(button, output, this.audioContext.currentTime);
     }
 
-    private playArpeggio(startTime: number, freqs: number[], interval: number) {
-        if (!this.audioContext || !this.sfxGain) return;
-
-        freqs.forEach((freq, i) => {
-            const osc = this.audioContext!.createOscillator();
-            osc.type = 'sine';
-            osc.frequency.value = freq;
-
-            const env = this.audioContext!.createGain();
-            const t = startTime + i * interval;
-            env.gain.setValueAtTime(0, t);
-            env.gain.linearRampToValueAtTime(0.25, t + 0.02);
-            env.gain.exponentialRampToValueAtTime(0.01, t + 0.2);
+    /**
+     * Play game over sound effect at world x
+     */
+    public async playGameOverSound(x: number = 0) {
+        await this.init();
+        if (!this.audioContext || !this.synth) return;
 
-            osc.connect(env);
-            env.connect(this.sfxGain!);
-            osc.start(t);
-            osc.stop(t + 0.25);
-        });
+        const output = this.createPanner(x);
+        if (this.playEventSample('gameOver', output)) return;
+        this.synth.gameOver(output, this.audioContext.currentTime);
     }
 
-    private playChord(startTime: number, freqs: number[], duration: number) {
-        if (!this.audioContext || !this.sfxGain) return;
+    /**
+     * Play the sound of the snake running into something at world x
+     */
+    public async playBlockSound(x: number = 0) {
+        await this.init();
+        if (!this.audioContext || !this.synth) return;
 
-        freqs.forEach(freq => {
-            const osc = this.audioContext!.createOscillator();
-            osc.type = 'triangle';
-            osc.frequency.value = freq;
+        const output = this.createPanner(x);
+        if (this.playEventSample('block', output)) return;
+        this.synth.block(output, this.audioContext.currentTime);
+    }
 
-            const env = this.audioContext!.createGain();
-            env.gain.setValueAtTime(0, startTime);
-            env.gain.linearRampToValueAtTime(0.2, startTime + 0.02);
-            env.gain.exponentialRampToValueAtTime(0.01, startTime + duration);
+    /**
+     * Stereo position for one effect: world x across the visible field maps to left..right
+     */
+    private createPanner(x: number): AudioNode {
+        const panner = this.audioContext!.createStereoPanner();
+        const pan = Math.max(-1, Math.min(1, x / this.fieldHalfWidth));
+        panner.pan.value = pan * CONFIG.AUDIO.PAN_AMOUNT;
+        panner.connect(this.sfxGain!);
+        return panner;
+    }
 
-            osc.connect(env);
-            env.connect(this.sfxGain!);
-            osc.start(startTime);
-            osc.stop(startTime + duration);
+    /**
+     * Stop all audio
+     */
+    public stop() {
+        this.bgOscillators.forEach(osc => {
+            try { osc.stop(); } catch (e) { /* Already stopped */ }
         });
+        this.bgOscillators = [];
+        this.musicLoop?.stop();
+        this.musicLoop = null;
+        this.isPlaying = false;
+        this.musicPaused = false;
+        this.sequenceId++;
     }
 
-    private playBoing(startTime: number, freq: number) {
-        if (!this.audioContext || !this.sfxGain) return;
-
-        const osc = this.audioContext.createOscillator();
-        osc.type = 'sine';
-        osc.frequency.setValueAtTime(freq * 0.5, startTime);
-        osc.frequency.exponentialRampToValueAtTime(freq * 2, startTime + 0.1);
-        osc.frequency.exponentialRampToValueAtTime(freq, startTime + 0.3);
-
-        const env = this.audioContext.createGain();
-        env.gain.setValueAtTime(0, startTime);
-        env.gain.linearRampToValueAtTime(0.35, startTime + 0.02);
-        env.gain.exponentialRampToValueAtTime(0.01, startTime + 0.4);
-
-        osc.connect(env);
-        env.connect(this.sfxGain);
-        osc.start(startTime);
-        osc.stop(startTime + 0.5);
+    /**
+     * Fade the music out while the tab is in the background, and back in when it returns
+     */
+    public setHidden(hidden: boolean) {
+        this.hidden = hidden;
+        this.applyVolumes(CONFIG.AUDIO.FADE_TIME);
     }
 
-    private playThump(startTime: number, freq: number) {
-        if (!this.audioContext || !this.sfxGain) return;
-
-        const osc = this.audioContext.createOscillator();
-        osc.type = 'sine';
-        osc.frequency.setValueAtTime(freq, startTime);
-        osc.frequency.exponentialRampToValueAtTime(freq * 0.3, startTime + 0.15);
-
-        const env = this.audioContext.createGain();
-        env.gain.setValueAtTime(0, startTime);
-        env.gain.linearRampToValueAtTime(0.5, startTime + 0.01);
-        env.gain.exponentialRampToValueAtTime(0.01, startTime + 0.3);
-
-        // Add sub-bass
-        const sub = this.audioContext.createOscillator();
-        sub.type = 'sine';
-        sub.frequency.value = freq * 0.5;
-
-        const subEnv = this.audioContext.createGain();
-        subEnv.gain.setValueAtTime(0.3, startTime);
-        subEnv.gain.exponentialRampToValueAtTime(0.01, startTime + 0.2);
-
-        osc.connect(env);
-        sub.connect(subEnv);
-        env.connect(this.sfxGain);
-        subEnv.connect(this.sfxGain);
-
-        osc.start(startTime);
-        sub.start(startTime);
-        osc.stop(startTime + 0.35);
-        sub.stop(startTime + 0.25);
+    public getVolume(bus: AudioBus): number {
+        return this.settings.getVolume(bus);
     }
 
-    private playNoiseBurst(startTime: number, duration: number, filterFreq: number) {
-        if (!this.audioContext || !this.sfxGain) return;
-
-        const bufferSize = Math.ceil(this.audioContext.sampleRate * duration * 2);
-        const noiseBuffer = this.audioContext.createBuffer(1, bufferSize, this.audioContext.sampleRate);
-        const output = noiseBuffer.getChannelData(0);
-
-        for (let i = 0; i < bufferSize; i++) {
-            output[i] = Math.random() * 2 - 1;
-        }
-
-        const noise = this.audioContext.createBufferSource();
-        noise.buffer = noiseBuffer;
-
-        const filter = this.audioContext.createBiquadFilter();
-        filter.type = 'highpass';
-        filter.frequency.value = filterFreq;
+    /**
+     * Set one bus volume (0-1) and save it
+     */
+    public setVolume(bus: AudioBus, value: number) {
+        this.settings.setVolume(bus, value);
+        this.applyVolumes(VOLUME_RAMP_TIME);
+    }
 
-        const envelope = this.audioContext.createGain();
-        envelope.gain.setValueAtTime(0.15, startTime);
-        envelope.gain.exponentialRampToValueAtTime(0.01, startTime + duration);
+    public isMuted(): boolean {
+        return this.settings.isMuted();
+    }
 
-        noise.connect(filter);
-        filter.connect(envelope);
-        envelope.connect(this.sfxGain);
+    public setMuted(muted: boolean) {
+        this.settings.setMuted(muted);
+        this.applyVolumes(VOLUME_RAMP_TIME);
+    }
 
-        noise.start(startTime);
-        noise.stop(startTime + duration);
+    public toggleMute() {
+        this.setMuted(!this.isMuted());
     }
 
     /**
-     * Stop all audio
+     * Gain a bus should be at: its saved volume, muted, or the music faded out
      */
-    public stop() {
-        this.bgOscillators.forEach(osc => {
-            try { osc.stop(); } catch (e) { /* Already stopped */ }
-        });
-        this.bgOscillators = [];
-        this.isPlaying = false;
+    private getTargetGain(bus: AudioBus): number {
+        if (bus === 'master' && this.settings.isMuted()) return 0;
+        if (bus === 'music' && (this.musicPaused || this.hidden)) return 0;
+        return this.settings.getVolume(bus);
     }
 
     /**
-     * Set master volume (0-1)
+     * Ramp every bus to its target gain (a hard jump would click)
      */
-    public setVolume(value: number) {
-        if (this.masterGain) {
-            this.masterGain.gain.value = Math.max(0, Math.min(1, value));
+    private applyVolumes(rampTime: number) {
+        if (!this.audioContext || !this.masterGain || !this.bgGain || !this.sfxGain) return;
+
+        const now = this.audioContext.currentTime;
+        const buses: [GainNode, AudioBus][] = [[this.masterGain, 'master'], [this.bgGain, 'music'], [this.sfxGain, 'sfx']];
+        for (const [node, bus] of buses) {
+            node.gain.cancelScheduledValues(now);
+            node.gain.setValueAtTime(node.gain.value, now);
+            node.gain.linearRampToValueAtTime(this.getTargetGain(bus), now + rampTime);
         }
     }
 }
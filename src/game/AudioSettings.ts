@@ -0,0 +1,75 @@
+import { CONFIG } from '../constants';
+
+export type AudioBus = 'master' | 'music' | 'sfx';
+
+export const AUDIO_BUSES: { bus: AudioBus, label: string }[] = [
+    { bus: 'master', label: 'Master' },
+    { bus: 'music', label: 'Music' },
+    { bus: 'sfx', label: 'Effects' },
+];
+
+interface AudioPreferences {
+    volumes: Record<AudioBus, number>; // 0-1
+    muted: boolean;
+}
+
+/**
+ * Volume per bus and the mute switch, persisted in localStorage
+ */
+export class AudioSettings {
+    private prefs: AudioPreferences = {
+        volumes: {
+            master: CONFIG.AUDIO.MASTER_VOLUME,
+            music: CONFIG.AUDIO.MUSIC_VOLUME,
+            sfx: CONFIG.AUDIO.SFX_VOLUME
+        },
+        muted: false
+    };
+
+    constructor() {
+        this.load();
+    }
+
+    public getVolume(bus: AudioBus): number {
+        return this.prefs.volumes[bus];
+    }
+
+    public setVolume(bus: AudioBus, value: number) {
+        this.prefs.volumes[bus] = Math.max(0, Math.min(1, value));
+        this.save();
+    }
+
+    public isMuted(): boolean {
+        return this.prefs.muted;
+    }
+
+    public setMuted(muted: boolean) {
+        this.prefs.muted = muted;
+        this.save();
+    }
+
+    private load() {
+        try {
+            const raw = localStorage.getItem(CONFIG.AUDIO.STORAGE_KEY);
+            if (!raw) return;
+            const parsed = JSON.parse(raw);
+
+            // Take what is valid, keep defaults for the rest
+            for (const { bus } of AUDIO_BUSES) {
+                const value = parsed?.volumes?.[bus];
+                if (typeof value === 'number' && value >= 0 && value <= 1) this.prefs.volumes[bus] = value;
+            }
+            if (typeof parsed?.muted === 'boolean') this.prefs.muted = parsed.muted;
+        } catch (err) {
+            console.warn('[AudioSettings] Could not load audio settings', err);
+        }
+    }
+
+    private save() {
+        try {
+            localStorage.setItem(CONFIG.AUDIO.STORAGE_KEY, JSON.stringify(this.prefs));
+        } catch (err) {
+            console.warn('[AudioSettings] Could not save audio settings', err);
+        }
+    }
+}
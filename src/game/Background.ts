@@ -272,7 +272,7 @@ export class Background {
 
     public renderTrails(
         _renderer: THREE.WebGLRenderer,
-        _snakePath: THREE.Vector3[],
+        _snakePaths: THREE.Vector3[][], // One per snake
         _organismPositions: { x: number, z: number, radius: number }[],
         _worldBounds: { width: number, depth: number }
     ) {
@@ -0,0 +1,308 @@
+import { CONFIG } from '../constants';
+import { isArrayOf, isInteger, isRecord } from '../utils/Guards';
+
+export type Action =
+    | 'up' | 'down' | 'left' | 'right'
+    | 'effectX' | 'effectY' | 'effectA' | 'effectB'
+    | 'confirm' | 'pause' | 'mute' | 'fullscreen';
+
+export const ACTIONS: { action: Action, label: string }[] = [
+    { action: 'up', label: 'Move Up' },
+    { action: 'down', label: 'Move Down' },
+    { action: 'left', label: 'Move Left' },
+    { action: 'right', label: 'Move Right' },
+    { action: 'effectX', label: 'Effect X (blue)' },
+    { action: 'effectY', label: 'Effect Y (yellow)' },
+    { action: 'effectA', label: 'Effect A (green)' },
+    { action: 'effectB', label: 'Effect B (red)' },
+    { action: 'confirm', label: 'Confirm / Restart' },
+    { action: 'pause', label: 'Pause / Back' },
+    { action: 'mute', label: 'Mute' },
+    { action: 'fullscreen', label: 'Fullscreen' },
+];
+
+/**
+ * Keys are KeyboardEvent.code values, i.e. physical positions: the WASD
+ * preset is ZQSD on an AZERTY keyboard without any remapping. Buttons are
+ * Gamepad.buttons indices (standard mapping by default; other pads can be
+ * rebound from the settings screen). Each player has their own map.
+ */
+export interface BindingMap {
+    keys: Record<Action, string[]>;
+    buttons: Record<Action, number[]>;
+}
+
+// Keys the game handles itself (pause, settings, replays); never bindable
+export const RESERVED_KEYS = ['Escape', 'F2', 'F8', 'F9'];
+
+const STANDARD_BUTTONS = {
+    up: [12], down: [13], left: [14], right: [15],
+    effectX: [2], effectY: [3], effectA: [0], effectB: [1],
+    confirm: [9], pause: [], mute: [8], fullscreen: [] // Start confirms in menus and pauses during play, Back/Select mutes
+};
+
+export const PRESETS: Record<string, BindingMap> = {
+    'Arrows': {
+        keys: {
+            up: ['ArrowUp'], down: ['ArrowDown'], left: ['ArrowLeft'], right: ['ArrowRight'],
+            effectX: ['KeyW', 'Digit1'], effectY: ['KeyA', 'Digit2'],
+            effectA: ['KeyS', 'Digit3'], effectB: ['KeyD', 'Digit4'],
+            confirm: ['Enter', 'Space'], pause: ['KeyP'], mute: ['KeyM'], fullscreen: ['KeyF']
+        },
+        buttons: STANDARD_BUTTONS
+    },
+    'WASD / ZQSD': {
+        keys: {
+            up: ['KeyW', 'ArrowUp'], down: ['KeyS', 'ArrowDown'], left: ['KeyA', 'ArrowLeft'], right: ['KeyD', 'ArrowRight'],
+            effectX: ['KeyJ', 'Digit1'], effectY: ['KeyI', 'Digit2'],
+            effectA: ['KeyK', 'Digit3'], effectB: ['KeyL', 'Digit4'],
+            confirm: ['Enter', 'Space'], pause: ['KeyP'], mute: ['KeyM'], fullscreen: ['KeyF']
+        },
+        buttons: STANDARD_BUTTONS
+    }
+};
+
+const DEFAULT_PRESET = 'Arrows';
+
+const NO_KEYS: Record<Action, string[]> = {
+    up: [], down: [], left: [], right: [],
+    effectX: [], effectY: [], effectA: [], effectB: [],
+    confirm: [], pause: [], mute: [], fullscreen: []
+};
+
+// Per-player defaults: player 1 gets the single-player layout, player 2 a
+// keyboard set that does not overlap it, players 3 and 4 gamepads only
+const PLAYER_DEFAULTS: BindingMap[] = [
+    PRESETS[DEFAULT_PRESET],
+    {
+        keys: {
+            ...NO_KEYS,
+            up: ['KeyI'], down: ['KeyK'], left: ['KeyJ'], right: ['KeyL'],
+            effectX: ['Digit7'], effectY: ['Digit8'], effectA: ['Digit9'], effectB: ['Digit0']
+        },
+        buttons: STANDARD_BUTTONS
+    },
+    { keys: NO_KEYS, buttons: STANDARD_BUTTONS },
+    { keys: NO_KEYS, buttons: STANDARD_BUTTONS }
+];
+
+// Labels for the W3C standard gamepad layout
+const STANDARD_BUTTON_NAMES = [
+    'A / Cross', 'B / Circle', 'X / Square', 'Y / Triangle',
+    'LB', 'RB', 'LT', 'RT', 'Back', 'Start', 'L3', 'R3',
+    'D-Up', 'D-Down', 'D-Left', 'D-Right', 'Home'
+];
+
+function cloneMap(map: BindingMap): BindingMap {
+    const keys = {} as Record<Action, string[]>;
+    const buttons = {} as Record<Action, number[]>;
+    for (const { action } of ACTIONS) {
+        keys[action] = [...map.keys[action]];
+        buttons[action] = [...map.buttons[action]];
+    }
+    return { keys, buttons };
+}
+
+/**
+ * Result of trying to bind a gamepad button: the action already using it, or null when applied
+ */
+export type BindingConflict = Action | null;
+
+/**
+ * Result of trying to bind a key: the player and action already using it,
+ * 'reserved' for game keys, or null when the binding was applied
+ */
+export type KeyConflict = { player: number, action: Action } | 'reserved' | null;
+
+/**
+ * Editable key/button maps (one per player) persisted in localStorage
+ */
+export class KeyBindings {
+    private maps: BindingMap[] = PLAYER_DEFAULTS.map(cloneMap);
+    private layoutMap: Map<string, string> | null = null;
+
+    constructor() {
+        this.load();
+        this.loadLayoutMap();
+    }
+
+    public getKeys(player: number, action: Action): readonly string[] {
+        return this.maps[player].keys[action];
+    }
+
+    public getButtons(player: number, action: Action): readonly number[] {
+        return this.maps[player].buttons[action];
+    }
+
+    /**
+     * Bind a key to one slot of an action. Refuses keys used by any other
+     * action of any player (or the other slot), so two actions never share a key.
+     */
+    public setKey(player: number, action: Action, slot: number, code: string): KeyConflict {
+        if (RESERVED_KEYS.includes(code)) return 'reserved';
+        const owner = this.findKeyOwner(code, player, action, slot);
+        if (owner) return owner;
+
+        const map = this.maps[player];
+        map.keys[action][slot] = code;
+        map.keys[action] = map.keys[action].filter(Boolean);
+        this.save();
+        return null;
+    }
+
+    /**
+     * Bind a gamepad button. Conflicts are per player, since every player has their own pad.
+     */
+    public setButton(player: number, action: Action, slot: number, button: number): BindingConflict {
+        const owner = this.findButtonOwner(button, player, action, slot);
+        if (owner) return owner;
+
+        const map = this.maps[player];
+        map.buttons[action][slot] = button;
+        map.buttons[action] = map.buttons[action].filter(b => b !== undefined);
+        this.save();
+        return null;
+    }
+
+    public clearKey(player: number, action: Action, slot: number) {
+        this.maps[player].keys[action].splice(slot, 1);
+        this.save();
+    }
+
+    public clearButton(player: number, action: Action, slot: number) {
+        this.maps[player].buttons[action].splice(slot, 1);
+        this.save();
+    }
+
+    /**
+     * Replace a player's map with a preset. Keys another player already uses
+     * are left out; their names are returned.
+     */
+    public applyPreset(player: number, name: string): string[] {
+        const preset = PRESETS[name];
+        if (!preset) return [];
+
+        const map = cloneMap(preset);
+        const skipped: string[] = [];
+        for (const { action } of ACTIONS) {
+            map.keys[action] = map.keys[action].filter(code => {
+                const owner = this.findKeyOwner(code, player, action, -1);
+                if (owner && owner.player !== player) {
+                    skipped.push(this.describeKey(code));
+                    return false;
+                }
+                return true;
+            });
+        }
+
+        this.maps[player] = map;
+        this.save();
+        return skipped;
+    }
+
+    public reset(player: number) {
+        this.maps[player] = cloneMap(PLAYER_DEFAULTS[player]);
+        this.save();
+    }
+
+    /**
+     * Display name for a key code, following the active keyboard layout where
+     * the browser exposes it (so KeyW shows as Z on AZERTY)
+     */
+    public describeKey(code: string): string {
+        const local = this.layoutMap?.get(code);
+        if (local) return local.toUpperCase();
+        if (code.startsWith('Key')) return code.slice(3);
+        if (code.startsWith('Digit')) return code.slice(5);
+        if (code.startsWith('Arrow')) return { ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' }[code] ?? code;
+        return code;
+    }
+
+    public describeButton(button: number): string {
+        const name = STANDARD_BUTTON_NAMES[button];
+        return name ? `${button} (${name})` : `Button ${button}`;
+    }
+
+    private findKeyOwner(code: string, player: number, action: Action, slot: number): { player: number, action: Action } | null {
+        for (let p = 0; p < this.maps.length; p++) {
+            for (const { action: other } of ACTIONS) {
+                const keys = this.maps[p].keys[other];
+                for (let i = 0; i < keys.length; i++) {
+                    const self = p === player && other === action && i === slot;
+                    if (keys[i] === code && !self) return { player: p, action: other };
+                }
+            }
+        }
+        return null;
+    }
+
+    private findButtonOwner(button: number, player: number, action: Action, slot: number): Action | null {
+        for (const { action: other } of ACTIONS) {
+            const buttons = this.maps[player].buttons[other];
+            for (let i = 0; i < buttons.length; i++) {
+                if (buttons[i] === button && !(other === action && i === slot)) return other;
+            }
+        }
+        return null;
+    }
+
+    private load() {
+        try {
+            const raw = localStorage.getItem(CONFIG.INPUT.STORAGE_KEY);
+            if (!raw) return;
+            const saved: unknown = JSON.parse(raw);
+            if (!Array.isArray(saved)) return;
+
+            // One map per player. Take what is valid, keep defaults for the rest (e.g. actions added later)
+            saved.slice(0, this.maps.length).forEach((entry: unknown, player) => {
+                if (!isRecord(entry)) return;
+                const map = this.maps[player];
+                for (const { action } of ACTIONS) {
+                    const keys = isRecord(entry.keys) ? entry.keys[action] : undefined;
+                    if (isArrayOf(keys, (k): k is string => typeof k === 'string')) {
+                        map.keys[action] = keys.slice(0, CONFIG.INPUT.SLOTS_PER_ACTION);
+                    }
+                    const buttons = isRecord(entry.buttons) ? entry.buttons[action] : undefined;
+                    if (isArrayOf(buttons, isInteger)) {
+                        map.buttons[action] = buttons.slice(0, CONFIG.INPUT.SLOTS_PER_ACTION);
+                    }
+                }
+            });
+
+            // The same rules as the settings screen: a shared or reserved key would make the maps ambiguous
+            if (this.hasConflicts()) {
+                console.warn('[KeyBindings] Saved bindings conflict, using the defaults');
+                this.maps = PLAYER_DEFAULTS.map(cloneMap);
+            }
+        } catch (err) {
+            console.warn('[KeyBindings] Could not load bindings', err);
+        }
+    }
+
+    private hasConflicts(): boolean {
+        return this.maps.some((map, player) => ACTIONS.some(({ action }) =>
+            map.keys[action].some((code, slot) => RESERVED_KEYS.includes(code) || this.findKeyOwner(code, player, action, slot)) ||
+            map.buttons[action].some((button, slot) => this.findButtonOwner(button, player, action, slot))
+        ));
+    }
+
+    private save() {
+        try {
+            localStorage.setItem(CONFIG.INPUT.STORAGE_KEY, JSON.stringify(this.maps));
+        } catch (err) {
+            console.warn('[KeyBindings] Could not save bindings', err);
+        }
+    }
+
+    /**
+     * Keyboard Map API (Chromium only); labels fall back to the code names elsewhere
+     */
+    private loadLayoutMap() {
+        const keyboard = (navigator as Navigator & {
+            keyboard?: { getLayoutMap(): Promise<Map<string, string>> }
+        }).keyboard;
+        keyboard?.getLayoutMap()
+            .then(map => { this.layoutMap = map; })
+            .catch(() => { /* Not allowed (e.g. in an iframe); keep code names */ });
+    }
+}
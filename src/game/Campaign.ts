@@ -0,0 +1,82 @@
+import { CONFIG } from '../constants';
+import { validateLevel } from './Level';
+import type { LevelData } from './Level';
+import firstBite from '../levels/01-first-bite.json';
+import corridors from '../levels/02-corridors.json';
+import petriRing from '../levels/03-petri-ring.json';
+import swarm from '../levels/04-swarm.json';
+import mazeFeast from '../levels/05-maze-feast.json';
+
+/**
+ * The shipped levels, in play order
+ */
+export const CAMPAIGN: readonly LevelData[] = [firstBite, corridors, petriRing, swarm, mazeFeast].map(validateLevel);
+
+export function findLevel(id: string): LevelData | null {
+    return CAMPAIGN.find(level => level.id === id) ?? null;
+}
+
+/**
+ * Campaign progress persisted in localStorage: how far the player has
+ * unlocked and their best completion time per level
+ */
+export class CampaignProgress {
+    private unlocked: number = 1; // Levels playable, counted from the first
+    private bestTimes: Record<string, number> = {};
+
+    constructor() {
+        this.load();
+    }
+
+    public getUnlockedCount(): number {
+        return this.unlocked;
+    }
+
+    public getBestTime(id: string): number | null {
+        return this.bestTimes[id] ?? null;
+    }
+
+    /**
+     * Record a completed level and unlock the next one.
+     * Returns true if the time is a new best for that level.
+     */
+    public complete(index: number, time: number): boolean {
+        const id = CAMPAIGN[index].id;
+        const best = this.bestTimes[id];
+        const isBest = best === undefined || time < best;
+        if (isBest) this.bestTimes[id] = time;
+
+        this.unlocked = Math.min(CAMPAIGN.length, Math.max(this.unlocked, index + 2));
+        this.save();
+        return isBest;
+    }
+
+    private load() {
+        try {
+            const raw = localStorage.getItem(CONFIG.CAMPAIGN.STORAGE_KEY);
+            if (!raw) return;
+            const parsed = JSON.parse(raw);
+            if (Number.isInteger(parsed?.unlocked)) {
+                this.unlocked = Math.max(1, Math.min(parsed.unlocked, CAMPAIGN.length));
+            }
+            if (parsed?.bestTimes && typeof parsed.bestTimes === 'object') {
+                for (const [id, time] of Object.entries(parsed.bestTimes)) {
+                    if (typeof time === 'number' && time > 0) this.bestTimes[id] = time;
+                }
+            }
+        } catch (err) {
+            console.warn('[CampaignProgress] Could not load campaign progress', err);
+        }
+    }
+
+    private save() {
+        try {
+            localStorage.setItem(CONFIG.CAMPAIGN.STORAGE_KEY, JSON.stringify({
+                unlocked: this.unlocked,
+                bestTimes: this.bestTimes
+            }));
+        } catch (err) {
+            console.warn('[CampaignProgress] Could not save campaign progress', err);
+        }
+    }
+}
@@ -1,9 +1,17 @@
 import * as THREE from 'three';
 import { CONFIG } from '../constants';
+import { RNG } from '../utils/Random';
+
+const rng = RNG.stream('fruit');
 
 export const FruitType = {
     BROCCOLI_A: 0,
-    BROCCOLI_B: 1
+    BROCCOLI_B: 1,
+    // Power-ups (see Simulation)
+    SPEED: 2,
+    GHOST: 3,
+    MAGNET: 4,
+    SHRINK: 5
 } as const;
 export type FruitType = typeof FruitType[keyof typeof FruitType];
 
@@ -23,6 +31,7 @@ varying vec2 vUv;
 uniform float uTime;
 uniform vec3 uColor;
 uniform float uSeed;
+uniform float uKind; // 0 broccoli, 1 speed, 2 ghost, 3 magnet, 4 shrink
 
 // --- Noise Functions ---
 vec3 mod289(vec3 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
@@ -114,6 +123,9 @@ void main() {
     float wobble = sin(t * 3.0 + crownLen * 8.0) * 0.03;
     wobble += sin(t * 1.7 + bumpAngle * 2.0) * 0.02;
     crownR += wobble;
+
+    // Shrink power-up: the crown keeps contracting
+    if (uKind > 3.5) crownR *= 0.75 + 0.2 * sin(t * 4.0);
     
     // Distance field
     float crownDist = crownLen - crownR;
@@ -191,6 +203,28 @@ void main() {
     // Subtle pulsing glow
     float pulse = sin(t * 3.0) * 0.5 + 0.5;
     col += vec3(0.02, 0.04, 0.01) * pulse;
+
+    // === POWER-UPS ===
+    // Recolour the broccoli shading and add an animated overlay per kind
+    if (uKind > 0.5) {
+        float lum = dot(col, vec3(0.299, 0.587, 0.114));
+        if (uKind < 1.5) {
+            // Speed: gold with streaks sweeping round
+            col = mix(vec3(1.0, 0.7, 0.1), vec3(1.0, 0.95, 0.5), lum * 2.0);
+            col += vec3(0.6, 0.5, 0.2) * smoothstep(0.7, 1.0, sin(angle * 6.0 - t * 12.0));
+        } else if (uKind < 2.5) {
+            // Ghost: pale, see-through and flickering
+            col = mix(vec3(0.7, 0.85, 1.0), vec3(1.0), lum);
+            alpha *= 0.45 + 0.25 * sin(t * 7.0) * sin(t * 3.1 + uSeed);
+        } else if (uKind < 3.5) {
+            // Magnet: magenta with rings drawing inward
+            col = mix(vec3(0.8, 0.1, 0.6), vec3(1.0, 0.5, 0.9), lum * 2.0);
+            col += vec3(0.4, 0.2, 0.5) * smoothstep(0.6, 1.0, sin(len * 25.0 + t * 8.0));
+        } else {
+            // Shrink: cyan
+            col = mix(vec3(0.1, 0.6, 0.8), vec3(0.6, 1.0, 1.0), lum * 2.0);
+        }
+    }
     
     gl_FragColor = vec4(col, alpha);
 }
@@ -199,7 +233,7 @@ void main() {
 import { TextureGenerator } from '../utils/TextureGenerator';
 
 export class FruitVisuals {
-    public static createFruitMesh(type: number): THREE.Mesh {
+    public static createFruitMesh(type: FruitType): THREE.Mesh {
         const geometry = new THREE.PlaneGeometry(2.0, 2.0);
         geometry.rotateX(-Math.PI / 2);
 
@@ -216,7 +250,7 @@ export class FruitVisuals {
                 color = new THREE.Color(0.3, 0.55, 0.2);
         }
 
-        const seed = Math.random() * 100.0;
+        const seed = rng.next() * 100.0;
 
         const material = new THREE.ShaderMaterial({
             vertexShader: VERTEX_SHADER,
@@ -224,7 +258,8 @@ export class FruitVisuals {
             uniforms: {
                 uTime: { value: 0 },
                 uColor: { value: new THREE.Vector3(color.r, color.g, color.b) },
-                uSeed: { value: seed }
+                uSeed: { value: seed },
+                uKind: { value: Math.max(0, type - FruitType.BROCCOLI_B) }
             },
             transparent: true,
             side: THREE.DoubleSide,
@@ -1,56 +1,229 @@
-import * as THREE from 'three';
 import { CONFIG } from '../constants';
 import { Renderer } from './Renderer';
 import { Input } from './Input';
-import { Snake } from './Snake';
+import { SnakeVisuals } from './SnakeVisuals';
 import { Grid } from './Grid';
 import { Background } from './Background';
 import { Audio } from './Audio';
+import type { MusicIntensity } from './Audio';
 import { ParticleSystem } from './Particles';
+import { findParticleEffect } from './ParticleEffects';
+import { FruitType } from './FruitVisuals';
+import { GameOverOverlay } from './GameOverOverlay';
+import { SettingsScreen } from './SettingsScreen';
+import { MenuScreen } from './MenuScreen';
+import { KeyBindings } from './Bindings';
+import { HighScores } from './Score';
+import { Simulation } from './Simulation';
+import type { TickInput, TimedPowerUp } from './Simulation';
+import type { Snake } from './Snake';
+import type { HeadCollision } from './World';
+import { ReplayRecorder, ReplayPlayer, serializeReplay, parseReplay } from './Replay';
+import type { ReplayData } from './Replay';
+import { CAMPAIGN, CampaignProgress, findLevel } from './Campaign';
+import type { LevelData } from './Level';
+import { LevelEditor } from './LevelEditor';
+import { RNG } from '../utils/Random';
+
+const IDLE_INPUT: TickInput = { direction: { x: 0, y: 0 }, buttonEffect: null };
+
+// Only 'playing' and 'gameOver' advance the simulation (the world keeps moving behind the overlay)
+type GameState = 'title' | 'playing' | 'paused' | 'gameOver' | 'settings';
 
 export class Game {
     private renderer: Renderer;
     private input: Input;
-    private snake: Snake;
+    private simulation: Simulation;
+    private snakeVisuals: SnakeVisuals[] = [];
     private grid: Grid;
     private background: Background;
     private audio: Audio;
     private particles: ParticleSystem;
+    private gameOverOverlay: GameOverOverlay;
+    private settingsScreen: SettingsScreen;
+    private menu: MenuScreen;
+    private bindings: KeyBindings = new KeyBindings();
+    private highScores: HighScores = new HighScores();
     private musicStarted: boolean = false;
+    private classicMode: boolean;
+    private playerCount: number;
+    private deathMessage: string = '';
+
+    private state: GameState = 'playing';
+    private settingsReturnState: GameState = 'playing'; // Where closing the settings screen goes back to
+
+    // Campaign (?campaign): the shipped levels in order, progress kept in localStorage
+    private campaignMode: boolean;
+    private campaignProgress: CampaignProgress = new CampaignProgress();
+    private levelIndex: number = 0;
+    private levelWon: boolean = false; // Confirm moves on to the next level
+
+    // Level editor (?editor=1): the world shows the draft until it is test-played
+    private editor: LevelEditor | null = null;
+    private testLevel: LevelData | null = null;
+
+    // Replays: every live run is recorded; a loaded replay replaces live input
+    private sessionSeed: number = RNG.getSeed();
+    private runCount: number = 0;
+    private recorder!: ReplayRecorder;
+    private replay: ReplayPlayer | null = null;
+    private replayEnded: boolean = false;
+
     private lastTime: number = 0;
     private frameCount: number = 0;
     private timeAccumulator: number = 0;
-    private frameInterval: number = 1000 / 60;
+
+    // Fixed-step simulation: real time waiting to be simulated
+    private simAccumulator: number = 0;
+    private readonly tickDt: number = 1 / CONFIG.SIMULATION.TICK_RATE;
 
     constructor() {
+        const params = new URLSearchParams(window.location.search);
+
+        // Debug overlay (?debug=1) also reports the session seed
+        if (params.get('debug') === '1') {
+            console.log(`[RNG] Seed: ${this.sessionSeed} (reproduce with ?seed=${this.sessionSeed})`);
+        }
+
+        // Classic mode (?mode=classic): self/organism collision ends the run
+        this.classicMode = params.get('mode') === 'classic';
+
+        // Local multiplayer (?players=2..4): snakes share the grid and the keyboard/pads
+        const players = parseInt(params.get('players') ?? '1', 10);
+        this.playerCount = Number.isNaN(players)
+            ? 1
+            : Math.max(1, Math.min(players, CONFIG.MULTIPLAYER.MAX_PLAYERS));
+
+        // Campaign (?campaign, &level=N for an unlocked level): single player.
+        // Without level=, continue from the furthest unlocked level.
+        // The level editor (?editor=1) takes precedence.
+        const editorMode = params.get('editor') === '1';
+        this.campaignMode = params.has('campaign') && !editorMode;
+        if (editorMode) this.playerCount = 1;
+        if (this.campaignMode) {
+            this.playerCount = 1;
+            const unlocked = this.campaignProgress.getUnlockedCount();
+            const level = parseInt(params.get('level') ?? '', 10);
+            this.levelIndex = Number.isNaN(level) ? unlocked - 1 : Math.max(0, Math.min(level - 1, unlocked - 1));
+        }
+
         this.renderer = new Renderer('app');
-        this.input = new Input();
-        this.audio = new Audio();
+        this.input = new Input(this.bindings, this.playerCount);
+        this.audio = new Audio(params.get('soundpack') ?? CONFIG.AUDIO.SOUND_PACK_URL);
 
-        // Grid first to know bounds? Grid resizes based on camera/window, so initially we rely on current window.
-        this.grid = new Grid(this.renderer.getAspectRatio());
+        // World size follows the current window aspect
+        this.simulation = new Simulation(this.renderer.getAspectRatio(), this.classicMode, this.playerCount);
+        this.grid = new Grid(this.simulation.world);
         this.renderer.scene.add(this.grid.mesh);
 
         this.background = new Background();
         this.renderer.scene.add(this.background.mesh);
 
         // Fit camera to grid immediately
-        const gridPhysicalHeight = CONFIG.GRID.FIXED_SIDE * CONFIG.GRID.CELL_SIZE;
-        this.renderer.fitCameraToGrid(gridPhysicalHeight);
+        this.fitCamera();
 
-        this.snake = new Snake(new THREE.Vector3(0, 0.5, 0));
-        this.renderer.scene.add(this.snake.mesh);
+        this.attachSnakes(this.simulation.getSnakes());
 
         // Particle system
         this.particles = new ParticleSystem();
         this.renderer.scene.add(this.particles.group);
 
+        this.gameOverOverlay = new GameOverOverlay(
+            'app',
+            () => this.resetGame(),
+            () => this.saveReplay(),
+            () => this.loadReplay()
+        );
+        this.settingsScreen = new SettingsScreen('app', this.bindings, this.input, this.audio, this.playerCount);
+        this.menu = new MenuScreen('app');
+
+        if (editorMode) {
+            this.editor = new LevelEditor('app', this.renderer.camera, this.renderer.renderer.domElement, {
+                preview: level => this.previewLevel(level),
+                play: level => {
+                    this.testLevel = level;
+                    this.resetGame();
+                },
+                edit: () => {
+                    this.testLevel = null;
+                    this.setState('playing');
+                }
+            });
+            this.renderer.scene.add(this.editor.mesh);
+        }
+
+        // Simulation events -> sound, particles and UI
+        this.simulation.events.on('snakesSpawned', snakes => this.attachSnakes(snakes));
+        this.simulation.events.on('fruitEaten', (_player, type, _points, x, z) => {
+            this.audio.playEatSound(x);
+            this.audio.playStinger('fruit');
+            this.spawnParticles(this.fruitEffectNames(type), x, z);
+        });
+        this.simulation.events.on('organismEaten', (_player, _points, organism) => {
+            this.audio.playEatSound(organism.x);
+            const hsl = { h: 0, s: 0, l: 0 };
+            organism.color.getHSL(hsl);
+            this.spawnParticles(['organism'], organism.x, organism.z, hsl.h);
+        });
+        this.simulation.events.on('buttonEffect', (_player, effect, x, z, scared) => {
+            this.audio.playButtonSound(effect, x);
+            if (scared > 0) this.audio.playStinger('scare');
+            this.spawnParticles([`button-${effect.toLowerCase()}`], x, z);
+        });
+        this.simulation.events.on('blocked', (_player, x) => this.audio.playBlockSound(x));
+        this.simulation.events.on('died', (player, cause) => {
+            this.audio.playGameOverSound(this.simulation.getSnakes()[player].getHeadPosition().x);
+            this.deathMessage = this.describeDeath(cause);
+        });
+        this.simulation.events.on('runEnded', winner => {
+            if (this.simulation.getPlayerCount() === 1) this.endRun(this.deathMessage);
+            else this.endRun(winner === null ? 'Draw!' : `Player ${winner + 1} wins!`);
+        });
+        this.simulation.events.on('levelCompleted', time => this.completeLevel(time));
+
         // Listen to resize to update grid
         window.addEventListener('game-resize', ((e: CustomEvent) => {
-            this.grid.resize(e.detail.aspect);
-            this.renderer.fitCameraToGrid(gridPhysicalHeight);
+            // A replay keeps its recorded world size (resizes are part of the recording),
+            // a level its authored one
+            if (!this.replay && !this.simulation.getLevel()) {
+                this.simulation.resize(e.detail.aspect);
+                if (!this.simulation.isGameOver()) this.recorder.recordResize(e.detail.aspect);
+            }
+            this.fitCamera();
             // Don't reset snake on resize, just let the world expand/contract
         }) as EventListener);
+
+        // Esc pauses (and backs out of the pause menu), F2 opens the settings screen.
+        // Replay files: F8 saves the current run (or the replay being watched), F9 loads one
+        window.addEventListener('keydown', (e) => {
+            if (e.code === 'Escape' && !e.defaultPrevented) {
+                if (this.state === 'playing') this.setState('paused');
+                else if (this.state === 'paused') this.menu.back();
+            } else if (e.code === 'F2') {
+                e.preventDefault();
+                if (this.state === 'settings') this.setState(this.settingsReturnState);
+                else this.setState('settings');
+            } else if (e.code === 'F8') {
+                e.preventDefault();
+                this.saveReplay();
+            } else if (e.code === 'F9') {
+                e.preventDefault();
+                this.loadReplay();
+            }
+        });
+
+        // Leaving the tab or losing a pad mid-run pauses it; a hidden tab fades the music in any state
+        document.addEventListener('visibilitychange', () => {
+            if (document.hidden && this.state === 'playing') this.setState('paused');
+            this.audio.setHidden(document.hidden);
+        });
+        window.addEventListener('gamepaddisconnected', () => {
+            if (this.state === 'playing') this.setState('paused');
+        });
+
+        this.resetGame();
+        if (this.editor) this.editor.open();
+        else this.setState('title');
     }
 
     public start() {
@@ -61,21 +234,20 @@ export class Game {
     private loop(time: number) {
         requestAnimationFrame(this.loop.bind(this));
 
-        const elapsed = time - this.lastTime;
-
-        // Limit to ~60 FPS. 
-        // On 120Hz screens, rAF fires every ~8.3ms.
-        // We want to skip the first call (8.3ms) and take the second (16.6ms).
-        // Using a threshold slightly lower than 16.6ms (e.g. 14ms) ensures we catch it 
-        // even if it arrives slightly early (jitter), but definitely skip the 8.3ms one.
-        if (elapsed < 14.0) return;
-
-        const dt = Math.min(elapsed / 1000, 0.1); // Cap dt
-
-        // Simple update - rely on v-sync cadence for smoothness
+        const dt = Math.min((time - this.lastTime) / 1000, CONFIG.SIMULATION.MAX_FRAME_TIME);
         this.lastTime = time;
 
-        this.update(dt);
+        // Run as many fixed simulation ticks as real time allows.
+        // Identical on 60/120/144Hz displays; only rendering follows the refresh rate.
+        this.simAccumulator += dt;
+        while (this.simAccumulator >= this.tickDt) {
+            this.update(this.tickDt);
+            this.simAccumulator -= this.tickDt;
+        }
+
+        // Blend factor between the previous and current tick for rendering
+        const alpha = this.simAccumulator / this.tickDt;
+        this.render(dt, alpha);
         this.renderer.render();
 
         // FPS Calc
@@ -89,106 +261,401 @@ export class Game {
         }
     }
 
+    /**
+     * One fixed simulation tick (dt is always 1 / TICK_RATE)
+     */
     private update(dt: number) {
-        // Input
-        const direction = this.input.getDirection();
-        const speed = CONFIG.SNAKE.SPEED; // Assuming speed is accessible or move speed to Game/Snake config
-
-        // We can also ask snake for its speed if we want to keep it encapsulated
-        // For now using constant.
-
-        // Calculate proposed move
-        let moveX = direction.x * speed * dt;
-        let moveZ = direction.y * speed * dt; // input y mapped to z
-
-        const currentPos = this.snake.getHeadPosition();
-        const r = CONFIG.SNAKE.CIRCLE_RADIUS + CONFIG.SNAKE.SAFETY_MARGIN;
-
-        // Try moving X
-        if (Math.abs(moveX) > 0.0001) {
-            if (!this.grid.isPositionBlocked(currentPos.x + moveX, currentPos.z, r)) {
-                // Safe to move X
-            } else {
-                moveX = 0; // Blocked
-                this.snake.triggerBlink(); // Visual feedback
-                // No reset, just block
-            }
+        // Mute works everywhere, menus and editor included
+        if (this.input.isPressedByAnyPlayer('mute')) this.audio.toggleMute();
+
+        // Settings screen: volumes and rebinding only. It closes itself on Esc.
+        this.settingsScreen.update();
+        if (this.state === 'settings' && !this.settingsScreen.isOpen()) this.setState(this.settingsReturnState);
+
+        // Editing a level: the world only shows the draft
+        if (this.editor?.isEditing()) {
+            this.input.endFrame();
+            return;
         }
 
-        // Try moving Z
-        // We check Z with the *potentially moved* X? Or independently?
-        // Classic top down sliding usually checks independently against current pos,
-        // OR recursively (check X then check Z from new X).
-        // Let's do check Z from new X for smoother sliding along corners.
+        // Menus and pausing. Start (confirm) pauses during play, like the pause action.
+        if (this.state === 'title' || this.state === 'paused') {
+            this.menu.update(this.input);
+        } else if (this.state === 'playing') {
+            if (this.input.isPressedByAnyPlayer('pause') || this.input.isConfirmPressed()) this.setState('paused');
+        } else if (this.state === 'gameOver' && this.input.isConfirmPressed()) {
+            this.resetGame();
+        }
 
-        // Temporarily apply X
-        const tempX = currentPos.x + moveX;
+        // Everything else holds still
+        if (this.state !== 'playing' && this.state !== 'gameOver') {
+            this.input.endFrame();
+            return;
+        }
 
-        if (Math.abs(moveZ) > 0.0001) {
-            if (!this.grid.isPositionBlocked(tempX, currentPos.z + moveZ, r)) {
-                // Safe to move Z
-            } else {
-                moveZ = 0;
+        // Input: live, or the next tick of the replay being watched (one entry per player)
+        const players = this.simulation.getPlayerCount();
+        let tickInputs: TickInput[];
+        if (this.replay) {
+            const aspect = this.replay.takeResize();
+            if (aspect !== null) this.simulation.resize(aspect);
+            const recorded = this.replay.next();
+            tickInputs = recorded ?? Array(players).fill(IDLE_INPUT);
+            if (!recorded && !this.replayEnded) {
+                this.replayEnded = true;
+                // A run that ended in death already shows the overlay
+                if (!this.simulation.isGameOver()) {
+                    this.gameOverOverlay.show('Replay finished', this.getBestScore());
+                    this.gameOverOverlay.showHighScores(this.highScores.getEntries());
+                    this.setState('gameOver');
+                }
+            }
+        } else {
+            tickInputs = [];
+            for (let player = 0; player < players; player++) {
+                tickInputs.push({
+                    direction: this.input.getDirection(player),
+                    buttonEffect: this.input.getButtonEffect(player)
+                });
             }
+            // Ticks after the run has ended are not part of it
+            if (!this.simulation.isGameOver()) this.recorder.record(tickInputs);
+        }
+
+        this.simulation.step(tickInputs, dt);
+        this.audio.setIntensity(this.getMusicIntensity());
+
+        // Start background music on first input (user gesture required for AudioContext)
+        const active = tickInputs.some(({ direction, buttonEffect }) =>
+            direction.x !== 0 || direction.y !== 0 || buttonEffect !== null);
+        if (!this.musicStarted && active) {
+            this.audio.startBackgroundMusic();
+            this.musicStarted = true;
         }
 
-        const finalMove = new THREE.Vector3(moveX, 0, moveZ);
-        this.snake.move(finalMove);
+        // Clear per-tick input state
+        this.input.endFrame();
+    }
 
-        // Update entities
-        const gridDt = Math.min(dt, 0.1);
-        // Avoid large delta spikes for logic spawn
-        this.grid.update(gridDt, this.snake.getPath());
+    /**
+     * Per-frame visuals. alpha (0..1) is how far real time has advanced
+     * past the last simulation tick, used to interpolate moving entities.
+     */
+    private render(frameDt: number, alpha: number) {
+        // Animations freeze with the simulation
+        const dt = this.state === 'playing' || this.state === 'gameOver' ? frameDt : 0;
+        this.grid.render(dt, alpha);
         this.background.update(dt);
-        this.snake.animate(dt);
+        for (const visuals of this.snakeVisuals) visuals.render(dt, alpha);
         this.particles.update(dt);
 
         // Update background trails
-        const bounds = this.grid.getWorldBounds();
-        const organismPositions = this.grid.getOrganismPositions();
+        const world = this.simulation.world;
         this.background.renderTrails(
             this.renderer.renderer,
-            this.snake.getPath(),
-            organismPositions,
-            bounds
+            this.simulation.getSnakes().map(snake => snake.getPath()),
+            world.getOrganismPositions(),
+            world.getWorldBounds()
         );
 
-        // Fruit Collection
-        const newHeadPos = this.snake.getHeadPosition();
-        if (this.grid.handleFruitCollection(newHeadPos.x, newHeadPos.z, r)) {
-            this.audio.playEatSound();
-            this.snake.triggerEat();
-            this.particles.spawnBurst(newHeadPos.x, newHeadPos.z);
+        this.renderer.updateScores(this.simulation.getPlayers().map((player, index) => ({
+            score: player.score.getScore(),
+            multiplier: player.score.getMultiplier(),
+            color: CONFIG.MULTIPLAYER.PLAYER_COLORS[index],
+            powerUps: (Object.keys(player.powerUps) as TimedPowerUp[])
+                .filter(key => player.powerUps[key] > 0)
+                .map(key => ({ name: key.toUpperCase(), remaining: player.powerUps[key] }))
+        })));
+
+        const level = this.simulation.getLevel();
+        if (level && !this.editor?.isEditing()) this.renderer.setStatus((this.replay ? 'REPLAY  ' : '') + this.describeLevelProgress(level));
+    }
+
+    /**
+     * HUD line for a level: goal progress and the clock against par
+     */
+    private describeLevelProgress(level: LevelData): string {
+        const { time, fruit } = this.simulation.getLevelProgress();
+        if (level.win.type === 'survive') {
+            return `${level.name}  SURVIVE ${Math.max(0, level.win.seconds - time).toFixed(1)}s`;
         }
+        const par = level.parTime !== undefined ? ` / PAR ${level.parTime}s` : '';
+        return `${level.name}  FRUIT ${fruit}/${level.win.count}  TIME ${time.toFixed(1)}s${par}`;
+    }
 
-        // Button effects (XYAB / 1234)
-        const buttonEffect = this.input.getButtonEffect();
-        if (buttonEffect) {
-            this.audio.playButtonSound(buttonEffect);
-            this.particles.spawnButtonEffect(newHeadPos.x, newHeadPos.z, buttonEffect);
-            this.grid.scareOrganisms(newHeadPos.x, newHeadPos.z);
+    /**
+     * What drives the music: the most intense of the live players
+     */
+    private getMusicIntensity(): MusicIntensity {
+        const intensity: MusicIntensity = { speed: 1, combo: 1, growth: 0 };
+        const span = CONFIG.SNAKE.MAX_NODES - CONFIG.SNAKE.INITIAL_NODES;
+        for (const player of this.simulation.getPlayers()) {
+            if (!player.alive) continue;
+            const speed = player.powerUps.speed > 0 ? CONFIG.FRUIT.POWER_UPS.SPEED.MULTIPLIER : 1;
+            const growth = (player.snake.getNodeCount() - CONFIG.SNAKE.INITIAL_NODES) / span;
+            intensity.speed = Math.max(intensity.speed, speed);
+            intensity.combo = Math.max(intensity.combo, player.score.getMultiplier());
+            intensity.growth = Math.max(intensity.growth, Math.min(1, growth));
         }
+        return intensity;
+    }
 
-        // Start background music on first input (user gesture required for AudioContext)
-        if (!this.musicStarted && (direction.x !== 0 || direction.y !== 0 || buttonEffect)) {
-            this.audio.startBackgroundMusic();
-            this.musicStarted = true;
+    /**
+     * Music key of a level (semitones): campaign levels in order, other levels by their id
+     */
+    private getMusicKey(level: LevelData | null): number {
+        const keys = CONFIG.AUDIO.MUSIC.LEVEL_KEYS;
+        if (!level) return keys[0];
+        const index = CAMPAIGN.findIndex(l => l.id === level.id);
+        const slot = index >= 0
+            ? index + 1
+            : [...level.id].reduce((sum, c) => sum + c.charCodeAt(0), 0);
+        return keys[slot % keys.length];
+    }
+
+    /**
+     * Fit the camera to the whole world (a level can be wider than the window).
+     * Effects pan across the visible width.
+     */
+    private fitCamera() {
+        const { width, depth } = this.simulation.world.getWorldBounds();
+        this.renderer.fitCameraToGrid(depth, width);
+        this.audio.setSoundField(Math.max(width, depth * this.renderer.getAspectRatio()));
+    }
+
+    /**
+     * Swap the snake visuals over to freshly spawned snakes.
+     * Each player gets their own colour in multiplayer; a lone snake keeps the rainbow.
+     */
+    private attachSnakes(snakes: readonly Snake[]) {
+        for (const visuals of this.snakeVisuals) {
+            this.renderer.scene.remove(visuals.mesh);
+            visuals.dispose();
         }
+        this.snakeVisuals = snakes.map((snake, index) => {
+            const color = snakes.length > 1 ? CONFIG.MULTIPLAYER.PLAYER_COLORS[index] : undefined;
+            const visuals = new SnakeVisuals(snake, color);
+            this.renderer.scene.add(visuals.mesh);
+            return visuals;
+        });
+    }
 
-        // Clear per-frame input state
-        this.input.endFrame();
+    /**
+     * Spawn the first of the named particle effects that is defined (most specific first)
+     */
+    private spawnParticles(names: string[], x: number, z: number, hue: number | null = null) {
+        const effect = findParticleEffect(...names);
+        if (effect) this.particles.spawn(effect, x, z, hue);
+    }
+
+    /**
+     * e.g. fruit-ghost, power-up, fruit
+     */
+    private fruitEffectNames(type: FruitType): string[] {
+        const key = (Object.keys(FruitType) as (keyof typeof FruitType)[]).find(k => FruitType[k] === type);
+        const isPowerUp = type !== FruitType.BROCCOLI_A && type !== FruitType.BROCCOLI_B;
+        const names = [`fruit-${key?.toLowerCase().replace(/_/g, '-')}`];
+        if (isPowerUp) names.push('power-up');
+        names.push('fruit');
+        return names;
+    }
+
+    private describeDeath(cause: NonNullable<HeadCollision>): string {
+        switch (cause) {
+            case 'self': return 'You bit yourself!';
+            case 'snake': return 'Another snake got you!';
+            case 'organism': return 'An organism got you!';
+        }
+    }
+
+    private getBestScore(): number {
+        return Math.max(...this.simulation.getPlayers().map(p => p.score.getScore()));
+    }
+
+    private endRun(message: string) {
+        const finalScore = this.getBestScore();
+        this.setState('gameOver');
+        this.gameOverOverlay.show(message, finalScore);
+        this.gameOverOverlay.showHighScores(this.highScores.getEntries());
+
+        // The high-score table is the single-player sandbox; watching a replay never enters it either
+        const sandbox = this.simulation.getPlayerCount() === 1 && !this.simulation.getLevel();
+        if (!this.replay && sandbox && this.highScores.qualifies(finalScore)) {
+            this.gameOverOverlay.promptInitials(initials => {
+                const rank = this.highScores.add(initials, finalScore);
+                this.gameOverOverlay.showHighScores(this.highScores.getEntries(), rank);
+            });
+        }
+    }
+
+    /**
+     * Level win: save progress (live runs only) and offer the next level
+     */
+    private completeLevel(time: number) {
+        const level = this.simulation.getLevel();
+        if (!level) return;
+
+        const par = level.parTime !== undefined ? ` (par ${level.parTime}s)` : '';
+        let message = `${level.name} cleared in ${time.toFixed(1)}s${par}`;
+        if (this.testLevel) {
+            message += '\nRestart to play again, Esc for the editor';
+        } else if (this.campaignMode && !this.replay) {
+            this.levelWon = true;
+            if (this.campaignProgress.complete(this.levelIndex, time)) message += ' - new best!';
+            message += this.levelIndex < CAMPAIGN.length - 1 ? '\nRestart for the next level' : '\nCampaign complete!';
+        }
+        this.setState('gameOver');
+        this.gameOverOverlay.show(message, this.getBestScore(), 'LEVEL COMPLETE');
+    }
+
+    /**
+     * Switch state: show the matching menu or screen, and pause the music
+     * whenever the simulation stops (it picks up again when play resumes)
+     */
+    private setState(next: GameState) {
+        const previous = this.state;
+        if (next === previous) return;
+        this.state = next;
+
+        if (previous === 'settings') this.settingsScreen.close();
+        if (next === 'settings') {
+            this.settingsReturnState = previous;
+            this.settingsScreen.open();
+        }
+
+        if (next === 'title') {
+            let level = '';
+            if (this.campaignMode) {
+                const current = CAMPAIGN[this.levelIndex];
+                const best = this.campaignProgress.getBestTime(current.id);
+                level = `Level ${this.levelIndex + 1}: ${current.name}` + (best !== null ? `  BEST ${best.toFixed(1)}s` : '');
+            }
+            this.menu.show('SNEK 3D', [
+                { label: 'Play', action: () => this.setState('playing') },
+                { label: 'Settings', action: () => this.setState('settings') },
+                { label: 'Load Replay', action: () => this.loadReplay() }
+            ], level);
+        } else if (next === 'paused') {
+            this.menu.show('PAUSED', [
+                { label: 'Resume', action: () => this.setState('playing') },
+                { label: 'Restart', action: () => this.resetGame() },
+                { label: 'Settings', action: () => this.setState('settings') },
+                { label: 'Quit to Title', action: () => this.quitToTitle() }
+            ], '', () => this.setState('playing'));
+        } else {
+            this.menu.hide();
+        }
+
+        const running = (state: GameState) => state === 'playing' || state === 'gameOver';
+        if (running(previous) && !running(next)) this.audio.pauseMusic();
+        else if (!running(previous) && running(next)) this.audio.resumeMusic();
+    }
+
+    /**
+     * Abandon the current run; Play on the title screen starts a fresh one
+     */
+    private quitToTitle() {
+        this.resetGame();
+        this.setState('title');
     }
 
+    /**
+     * Start a new live run. The first run uses the session seed (?seed=),
+     * later ones derive their own so every run differs but stays reproducible.
+     * In the campaign, a won level moves on to the next one; otherwise it is retried.
+     * A level test-played from the editor is simply restarted.
+     */
     private resetGame() {
-        // Remove old snake
-        this.renderer.scene.remove(this.snake.mesh);
+        const seed = this.runCount === 0
+            ? this.sessionSeed
+            : RNG.parseSeed(`${this.sessionSeed}:${this.runCount}`);
+        this.runCount++;
+
+        if (this.levelWon) this.levelIndex = Math.min(this.levelIndex + 1, CAMPAIGN.length - 1);
+        this.levelWon = false;
+        const level = this.testLevel ?? (this.campaignMode ? CAMPAIGN[this.levelIndex] : null);
+        const classic = level ? level.classic : this.classicMode;
+
+        const aspect = this.renderer.getAspectRatio();
+        this.replay = null;
+        this.replayEnded = false;
+        this.renderer.setStatus('');
+        this.startRun(seed, classic, this.playerCount, aspect, level);
+        // An editor level is stored whole: it is not in the campaign, or is an edited copy of a campaign level
+        const replayLevel = this.testLevel ? structuredClone(this.testLevel) : level?.id ?? null;
+        this.recorder = new ReplayRecorder(seed, classic, this.playerCount, aspect, replayLevel);
+        this.setState('playing');
+    }
+
+    /**
+     * Rewind all random streams and rebuild the world, so a run depends
+     * only on its seed, mode, player count, world size (or level) and input
+     */
+    private startRun(seed: number, classic: boolean, players: number, aspect: number, level: LevelData | null) {
+        RNG.setSeed(seed);
+        this.simulation.configure(classic, players, level);
+        this.simulation.resize(aspect);
+        // New snakes, organisms, fruit and scores; snake visuals follow via snakesSpawned
+        this.simulation.reset();
+        this.fitCamera();
+        this.audio.setKey(this.getMusicKey(level));
+        this.deathMessage = '';
+        this.gameOverOverlay.hide();
+    }
+
+    /**
+     * Show an editor draft: obstacles and the snake at its spawn point, nothing simulated
+     */
+    private previewLevel(level: LevelData) {
+        this.replay = null;
+        this.replayEnded = false;
+        this.simulation.configure(level.classic, 1, level);
+        this.simulation.reset();
+        this.fitCamera();
+        this.deathMessage = '';
+        this.gameOverOverlay.hide();
+        this.renderer.setStatus('EDITOR');
+    }
+
+    private watchReplay(data: ReplayData) {
+        const level = typeof data.level === 'string' ? findLevel(data.level) : data.level;
+        if (typeof data.level === 'string' && !level) {
+            throw new Error(`Replay is of a level this build does not have: ${data.level}`);
+        }
 
-        // New Snake
-        this.snake = new Snake(new THREE.Vector3(0, 0.5, 0));
-        this.renderer.scene.add(this.snake.mesh);
+        this.replay = new ReplayPlayer(data);
+        this.replayEnded = false;
+        this.renderer.setStatus('REPLAY');
+        this.startRun(data.seed, data.classic, data.players, data.aspect, level);
+        this.setState('playing');
+    }
+
+    private saveReplay() {
+        const data = this.replay ? this.replay.data : this.recorder.getData();
+        const blob = new Blob([serializeReplay(data)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
 
-        // Grid handles its own internal fruit/obstacle cleanup if we wanted full reset, 
-        // but "No score" and "Alive grid" implies the world persists, just player resets?
-        // Let's keep the grid state for continuity ("fun chaos").
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `aria-snake-replay-${data.seed}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+
+    private loadReplay() {
+        const fileInput = document.createElement('input');
+        fileInput.type = 'file';
+        fileInput.accept = '.json,application/json';
+        fileInput.addEventListener('change', async () => {
+            const file = fileInput.files?.[0];
+            if (!file) return;
+            try {
+                this.watchReplay(parseReplay(JSON.parse(await file.text())));
+            } catch (err) {
+                console.warn('[Replay] Could not load replay', err);
+                window.alert(`Could not load replay: ${(err as Error).message}`);
+            }
+        });
+        fileInput.click();
     }
 }
@@ -0,0 +1,155 @@
+import type { HighScoreEntry } from './Score';
+
+/**
+ * Game Over Overlay
+ * DOM panel shown when a classic-mode run, a level (or a replay) ends: final
+ * score, initials entry for a new high score, the top-10 table and replay buttons
+ */
+export class GameOverOverlay {
+    private element: HTMLDivElement;
+    private titleElement: HTMLDivElement;
+    private messageElement: HTMLDivElement;
+    private scoreElement: HTMLDivElement;
+    private entryElement: HTMLDivElement;
+    private initialsInput: HTMLInputElement;
+    private tableElement: HTMLDivElement;
+    private onInitials: ((initials: string) => void) | null = null;
+
+    constructor(containerId: string, onRestart: () => void, onSaveReplay: () => void, onLoadReplay: () => void) {
+        const container = document.getElementById(containerId) as HTMLElement;
+
+        this.element = document.createElement('div');
+        this.element.style.position = 'absolute';
+        this.element.style.inset = '0';
+        this.element.style.display = 'none';
+        this.element.style.flexDirection = 'column';
+        this.element.style.alignItems = 'center';
+        this.element.style.justifyContent = 'center';
+        this.element.style.gap = '16px';
+        this.element.style.background = 'rgba(0, 0, 0, 0.55)';
+        this.element.style.color = '#ffffff';
+        this.element.style.fontFamily = 'monospace';
+
+        this.titleElement = document.createElement('div');
+        this.titleElement.style.fontSize = '48px';
+        this.titleElement.style.fontWeight = 'bold';
+        this.element.appendChild(this.titleElement);
+
+        this.messageElement = document.createElement('div');
+        this.messageElement.style.fontSize = '18px';
+        this.element.appendChild(this.messageElement);
+
+        this.scoreElement = document.createElement('div');
+        this.scoreElement.style.fontSize = '24px';
+        this.scoreElement.style.color = '#00ff00';
+        this.element.appendChild(this.scoreElement);
+
+        // Initials entry (only shown for a new high score)
+        this.entryElement = document.createElement('div');
+        this.entryElement.style.display = 'none';
+        this.entryElement.style.gap = '8px';
+        this.entryElement.style.alignItems = 'center';
+
+        const entryLabel = document.createElement('span');
+        entryLabel.innerText = 'NEW HIGH SCORE! Initials:';
+        this.entryElement.appendChild(entryLabel);
+
+        this.initialsInput = document.createElement('input');
+        this.initialsInput.maxLength = 3;
+        this.initialsInput.style.width = '4em';
+        this.initialsInput.style.fontFamily = 'monospace';
+        this.initialsInput.style.fontSize = '18px';
+        this.initialsInput.style.textTransform = 'uppercase';
+        this.initialsInput.addEventListener('keydown', (e) => {
+            // Keep typing away from the game's key handling (WASD effects, Enter restart, F fullscreen)
+            e.stopPropagation();
+            if (e.key === 'Enter') this.submitInitials();
+        });
+        this.entryElement.appendChild(this.initialsInput);
+
+        const saveButton = document.createElement('button');
+        saveButton.innerText = 'Save';
+        saveButton.style.fontFamily = 'monospace';
+        saveButton.addEventListener('click', () => this.submitInitials());
+        this.entryElement.appendChild(saveButton);
+
+        this.element.appendChild(this.entryElement);
+
+        this.tableElement = document.createElement('div');
+        this.tableElement.style.whiteSpace = 'pre';
+        this.tableElement.style.fontSize = '16px';
+        this.element.appendChild(this.tableElement);
+
+        const button = document.createElement('button');
+        button.innerText = 'Restart (Enter / Start)';
+        button.style.fontFamily = 'monospace';
+        button.style.fontSize = '18px';
+        button.style.padding = '8px 20px';
+        button.style.cursor = 'pointer';
+        button.addEventListener('click', () => onRestart());
+        this.element.appendChild(button);
+
+        // Replay file buttons (also on F8 / F9 during play)
+        const replayRow = document.createElement('div');
+        replayRow.style.display = 'flex';
+        replayRow.style.gap = '8px';
+
+        const saveReplayButton = document.createElement('button');
+        saveReplayButton.innerText = 'Save Replay (F8)';
+        saveReplayButton.style.fontFamily = 'monospace';
+        saveReplayButton.addEventListener('click', () => onSaveReplay());
+        replayRow.appendChild(saveReplayButton);
+
+        const loadReplayButton = document.createElement('button');
+        loadReplayButton.innerText = 'Load Replay (F9)';
+        loadReplayButton.style.fontFamily = 'monospace';
+        loadReplayButton.addEventListener('click', () => onLoadReplay());
+        replayRow.appendChild(loadReplayButton);
+
+        this.element.appendChild(replayRow);
+
+        container.appendChild(this.element);
+    }
+
+    public show(message: string, score: number, title: string = 'GAME OVER') {
+        this.titleElement.innerText = title;
+        this.messageElement.innerText = message;
+        this.scoreElement.innerText = `SCORE: ${score}`;
+        this.element.style.display = 'flex';
+    }
+
+    public hide() {
+        this.element.style.display = 'none';
+        this.entryElement.style.display = 'none';
+        this.onInitials = null;
+        this.initialsInput.blur();
+    }
+
+    /**
+     * Ask for initials; the callback fires once on Enter or Save
+     */
+    public promptInitials(onSubmit: (initials: string) => void) {
+        this.onInitials = onSubmit;
+        this.initialsInput.value = '';
+        this.entryElement.style.display = 'flex';
+        this.initialsInput.focus();
+    }
+
+    public showHighScores(entries: HighScoreEntry[], highlightRank: number = -1) {
+        const lines = entries.map((e, i) => {
+            const marker = i === highlightRank ? '>' : ' ';
+            const rank = String(i + 1).padStart(2, ' ');
+            return `${marker} ${rank}. ${e.initials.padEnd(3, ' ')}  ${String(e.score).padStart(7, ' ')}`;
+        });
+        this.tableElement.innerText = lines.length > 0 ? `HIGH SCORES\n${lines.join('\n')}` : '';
+    }
+
+    private submitInitials() {
+        if (!this.onInitials) return;
+        const callback = this.onInitials;
+        this.onInitials = null;
+        this.entryElement.style.display = 'none';
+        this.initialsInput.blur();
+        callback(this.initialsInput.value.trim());
+    }
+}
@@ -1,18 +1,39 @@
+import { CONFIG } from '../constants';
+import type { Action, KeyBindings } from './Bindings';
+
 export type ButtonEffect = 'X' | 'Y' | 'A' | 'B' | null;
 
+const EFFECT_ACTIONS: [Action, NonNullable<ButtonEffect>][] = [
+    ['effectX', 'X'],
+    ['effectY', 'Y'],
+    ['effectA', 'A'],
+    ['effectB', 'B'],
+];
+
+/**
+ * Keyboard and gamepad state, resolved through each player's KeyBindings map.
+ * With one player every connected gamepad drives the snake; with several,
+ * the n-th connected pad belongs to player n.
+ */
 export class Input {
     private keys: Set<string> = new Set();
     private pressedThisFrame: Set<string> = new Set();
-    private gamepadButtonsPressed: Set<number> = new Set();
+    // Gamepad buttons held at the last endFrame ("pad:button"), for press edges
+    private heldButtons: Set<string> = new Set();
+    private bindings: KeyBindings;
+    private playerCount: number;
+
+    constructor(bindings: KeyBindings, playerCount: number = 1) {
+        this.bindings = bindings;
+        this.playerCount = playerCount;
 
-    constructor() {
         window.addEventListener('keydown', (e) => {
             if (!this.keys.has(e.code)) {
                 this.pressedThisFrame.add(e.code);
             }
             this.keys.add(e.code);
 
-            if (e.code === 'KeyF') {
+            if (this.bindings.getKeys(0, 'fullscreen').includes(e.code)) {
                 if (!document.fullscreenElement) {
                     document.documentElement.requestFullscreen().catch(err => {
                         console.error(`Error attempting to enable full-screen mode: ${err.message} (${err.name})`);
@@ -25,42 +46,83 @@ export class Input {
         window.addEventListener('keyup', (e) => this.keys.delete(e.code));
     }
 
-    public getDirection(): { x: number, y: number } {
-        let dx = 0;
-        let dy = 0;
+    /**
+     * Gamepads driving a player: all of them in single player, otherwise
+     * the player's own (connected pads in index order)
+     */
+    private getGamepads(player: number): Gamepad[] {
+        const pads = navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null && pad.connected);
+        if (this.playerCount === 1) return pads;
+        return pads[player] ? [pads[player]] : [];
+    }
 
-        // Gamepad - check both left and right sticks
-        const gamepad = navigator.getGamepads()[0];
-        if (gamepad) {
-            // Left stick (axes 0, 1)
-            let axisX = gamepad.axes[0];
-            let axisY = gamepad.axes[1];
+    /**
+     * Action held down on the player's keys or gamepad
+     */
+    public isActionDown(action: Action, player: number = 0): boolean {
+        if (this.bindings.getKeys(player, action).some(code => this.keys.has(code))) return true;
 
-            // Right stick (axes 2, 3) - use if left stick isn't active
-            const rightX = gamepad.axes[2];
-            const rightY = gamepad.axes[3];
+        const buttons = this.bindings.getButtons(player, action);
+        return this.getGamepads(player).some(pad => buttons.some(b => pad.buttons[b]?.pressed));
+    }
 
-            // Use whichever stick has more input
-            const leftMag = Math.sqrt(axisX * axisX + axisY * axisY);
-            const rightMag = Math.sqrt(rightX * rightX + rightY * rightY);
+    /**
+     * Action pressed since the last endFrame (edge, not held)
+     */
+    public isActionPressed(action: Action, player: number = 0): boolean {
+        if (this.bindings.getKeys(player, action).some(code => this.pressedThisFrame.has(code))) return true;
 
-            if (rightMag > leftMag && rightMag > 0.1) {
-                axisX = rightX;
-                axisY = rightY;
+        const buttons = this.bindings.getButtons(player, action);
+        return this.getGamepads(player).some(pad =>
+            buttons.some(b => pad.buttons[b]?.pressed && !this.heldButtons.has(`${pad.index}:${b}`))
+        );
+    }
+
+    /**
+     * First gamepad button newly pressed on the player's pad (used when rebinding)
+     */
+    public getPressedButton(player: number = 0): number | null {
+        for (const pad of this.getGamepads(player)) {
+            for (let b = 0; b < pad.buttons.length; b++) {
+                if (pad.buttons[b].pressed && !this.heldButtons.has(`${pad.index}:${b}`)) return b;
             }
+        }
+        return null;
+    }
 
-            // Deadzone
-            if (Math.abs(axisX) > 0.1 || Math.abs(axisY) > 0.1) {
-                const len = Math.sqrt(axisX * axisX + axisY * axisY);
-                return { x: axisX / len, y: axisY / len };
+    public getDirection(player: number = 0): { x: number, y: number } {
+        let dx = 0;
+        let dy = 0;
+        const deadzone = CONFIG.INPUT.STICK_DEADZONE;
+
+        // Gamepads - strongest of the left (axes 0, 1) and right (axes 2, 3) sticks on any pad
+        let axisX = 0;
+        let axisY = 0;
+        let bestMag = 0;
+        for (const gamepad of this.getGamepads(player)) {
+            for (const base of [0, 2]) {
+                const x = gamepad.axes[base] ?? 0;
+                const y = gamepad.axes[base + 1] ?? 0;
+                const mag = Math.sqrt(x * x + y * y);
+                if (mag > bestMag) {
+                    bestMag = mag;
+                    axisX = x;
+                    axisY = y;
+                }
             }
         }
 
-        // Keyboard - Arrow keys only (WASD is for effects)
-        if (this.keys.has('ArrowUp')) dy = -1;
-        if (this.keys.has('ArrowDown')) dy = 1;
-        if (this.keys.has('ArrowLeft')) dx = -1;
-        if (this.keys.has('ArrowRight')) dx = 1;
+        // Deadzone
+        if (Math.abs(axisX) > deadzone || Math.abs(axisY) > deadzone) {
+            const len = Math.sqrt(axisX * axisX + axisY * axisY);
+            return { x: axisX / len, y: axisY / len };
+        }
+
+        // Digital directions (keys, D-pad)
+        if (this.isActionDown('up', player)) dy = -1;
+        if (this.isActionDown('down', player)) dy = 1;
+        if (this.isActionDown('left', player)) dx = -1;
+        if (this.isActionDown('right', player)) dx = 1;
 
         if (dx !== 0 || dy !== 0) {
             const len = Math.sqrt(dx * dx + dy * dy);
@@ -71,48 +133,46 @@ export class Input {
     }
 
     /**
-     * Check for button effect triggers (XYAB on controller, 1234 on keyboard)
+     * Check for button effect triggers (XYAB on controller, 1234 on keyboard by default)
      * Returns null if no button was pressed this frame
      */
-    public getButtonEffect(): ButtonEffect {
-        // Check keyboard - WASD or 1234 keys
-        // W/1 = X (blue), A/2 = Y (yellow), S/3 = A (green), D/4 = B (red)
-        if (this.pressedThisFrame.has('KeyW') || this.pressedThisFrame.has('Digit1')) return 'X';
-        if (this.pressedThisFrame.has('KeyA') || this.pressedThisFrame.has('Digit2')) return 'Y';
-        if (this.pressedThisFrame.has('KeyS') || this.pressedThisFrame.has('Digit3')) return 'A';
-        if (this.pressedThisFrame.has('KeyD') || this.pressedThisFrame.has('Digit4')) return 'B';
-
-        // Check gamepad buttons
-        const gamepad = navigator.getGamepads()[0];
-        if (gamepad) {
-            // Xbox controller: X=2, Y=3, A=0, B=1
-            const buttonMap: [number, ButtonEffect][] = [
-                [2, 'X'], // X button
-                [3, 'Y'], // Y button
-                [0, 'A'], // A button
-                [1, 'B'], // B button
-            ];
-
-            for (const [btnIndex, effect] of buttonMap) {
-                const pressed = gamepad.buttons[btnIndex]?.pressed;
-                const wasPressed = this.gamepadButtonsPressed.has(btnIndex);
-
-                if (pressed && !wasPressed) {
-                    this.gamepadButtonsPressed.add(btnIndex);
-                    return effect;
-                } else if (!pressed && wasPressed) {
-                    this.gamepadButtonsPressed.delete(btnIndex);
-                }
-            }
+    public getButtonEffect(player: number = 0): ButtonEffect {
+        for (const [action, effect] of EFFECT_ACTIONS) {
+            if (this.isActionPressed(action, player)) return effect;
         }
-
         return null;
     }
 
+    /**
+     * Check for a confirm press (Enter/Space on keyboard, Start on controller by default)
+     * Used by menus and the game-over screen; any player can confirm
+     */
+    public isConfirmPressed(): boolean {
+        return this.isPressedByAnyPlayer('confirm');
+    }
+
+    /**
+     * Action pressed by any player since the last endFrame (menu navigation, pause)
+     */
+    public isPressedByAnyPlayer(action: Action): boolean {
+        for (let player = 0; player < this.playerCount; player++) {
+            if (this.isActionPressed(action, player)) return true;
+        }
+        return false;
+    }
+
     /**
      * Call at end of frame to clear pressed-this-frame state
      */
     public endFrame() {
         this.pressedThisFrame.clear();
+
+        this.heldButtons.clear();
+        for (const pad of navigator.getGamepads()) {
+            if (!pad) continue;
+            pad.buttons.forEach((button, b) => {
+                if (button.pressed) this.heldButtons.add(`${pad.index}:${b}`);
+            });
+        }
     }
 }
@@ -0,0 +1,184 @@
+import { CONFIG } from '../constants';
+import { isArrayOf, isInteger, isNumber, isRecord } from '../utils/Guards';
+
+export const LEVEL_VERSION = 1;
+
+/**
+ * Rectangle in world units, centred on (x, z)
+ */
+export interface Zone {
+    x: number;
+    z: number;
+    width: number;
+    depth: number;
+}
+
+export type WinCondition =
+    | { type: 'fruit', count: number }     // Eat this many fruit
+    | { type: 'survive', seconds: number }; // Stay alive this long (classic levels)
+
+/**
+ * Level file contents. The obstacle layout is one string per row of cells,
+ * top (-z) first: '#' is an obstacle, '.' is open floor. The world is
+ * columns x rows cells; positions are world units with (0, 0) in the middle.
+ */
+export interface LevelData {
+    version: number;
+    id: string;
+    name: string;
+    columns: number;
+    rows: number;
+    obstacles: string[];
+    spawn: { x: number, z: number };
+    fruitCount: number;            // Fruit on the grid at once
+    fruitZones: Zone[];            // Where fruit may appear; empty = anywhere reachable
+    organisms: { count: number, zones: Zone[] }; // Population and where it spawns; empty = anywhere
+    win: WinCondition;
+    parTime?: number;              // Seconds; fruit levels only
+    classic: boolean;              // Self/organism collision ends the attempt
+}
+
+export const LEVEL_SIZE = { MIN: 8, MAX: 64 }; // Cells per side
+
+/**
+ * Whether a point lies inside a zone (edges included)
+ */
+export function inZone(zone: Zone, x: number, z: number): boolean {
+    return Math.abs(x - zone.x) <= zone.width / 2 && Math.abs(z - zone.z) <= zone.depth / 2;
+}
+
+/**
+ * How far the snake's spawn coil reaches from the spawn point, body included.
+ * The coil is an Archimedean spiral (see Snake) whose arc length, about
+ * b * theta^2 / 2, is the initial body length.
+ */
+function getSpawnCoilRadius(): number {
+    const { CIRCLE_RADIUS, COIL_GAP, INITIAL_NODES, NODE_SPACING } = CONFIG.SNAKE;
+    const b = CIRCLE_RADIUS * COIL_GAP / (2 * Math.PI);
+    const theta = Math.sqrt(2 * INITIAL_NODES * NODE_SPACING / b);
+    return b * theta + CIRCLE_RADIUS;
+}
+
+/**
+ * World size of a level
+ */
+export function getLevelSize(level: LevelData): { width: number, depth: number } {
+    return {
+        width: level.columns * CONFIG.GRID.CELL_SIZE,
+        depth: level.rows * CONFIG.GRID.CELL_SIZE
+    };
+}
+
+export function serializeLevel(level: LevelData): string {
+    return JSON.stringify(level, null, 4);
+}
+
+/**
+ * Parse and validate a level file. Throws on anything that cannot be played.
+ */
+export function parseLevel(text: string): LevelData {
+    return validateLevel(JSON.parse(text));
+}
+
+/**
+ * Check an already parsed level (e.g. a bundled JSON import) and return it typed
+ */
+export function validateLevel(raw: unknown): LevelData {
+    const version = isRecord(raw) ? raw.version : undefined;
+    if (!isRecord(raw) || version !== LEVEL_VERSION) {
+        throw new Error(`Unsupported level version: ${version}`);
+    }
+    const { id, name } = raw;
+    if (typeof id !== 'string' || id === '' || typeof name !== 'string') {
+        throw new Error('Level is missing its id or name');
+    }
+
+    const { columns, rows } = raw;
+    const validSide = (v: unknown): v is number => isInteger(v) && v >= LEVEL_SIZE.MIN && v <= LEVEL_SIZE.MAX;
+    if (!validSide(columns) || !validSide(rows)) {
+        throw new Error(`Level ${id}: size must be ${LEVEL_SIZE.MIN}..${LEVEL_SIZE.MAX} cells per side`);
+    }
+
+    const validRow = (row: unknown): row is string => typeof row === 'string' && row.length === columns && /^[.#]*$/.test(row);
+    const obstacles = raw.obstacles;
+    if (!isArrayOf(obstacles, validRow) || obstacles.length !== rows) {
+        throw new Error(`Level ${id}: obstacles must be ${rows} rows of ${columns} '.' or '#'`);
+    }
+
+    const halfW = columns * CONFIG.GRID.CELL_SIZE / 2;
+    const halfD = rows * CONFIG.GRID.CELL_SIZE / 2;
+
+    const spawn = raw.spawn;
+    if (!isRecord(spawn) || !isNumber(spawn.x) || !isNumber(spawn.z) || Math.abs(spawn.x) >= halfW || Math.abs(spawn.z) >= halfD) {
+        throw new Error(`Level ${id}: spawn point is missing or outside the world`);
+    }
+    const spawnCol = Math.floor((spawn.x + halfW) / CONFIG.GRID.CELL_SIZE);
+    const spawnRow = Math.floor((spawn.z + halfD) / CONFIG.GRID.CELL_SIZE);
+    if (obstacles[spawnRow][spawnCol] === '#') {
+        throw new Error(`Level ${id}: spawn point is inside an obstacle`);
+    }
+    // The snake starts coiled around the spawn point, so the whole coil must be clear
+    const coilRadius = getSpawnCoilRadius();
+    const cell = CONFIG.GRID.CELL_SIZE;
+    for (let r = 0; r < rows; r++) {
+        for (let col = 0; col < columns; col++) {
+            if (obstacles[r][col] !== '#') continue;
+            const left = col * cell - halfW;
+            const top = r * cell - halfD;
+            const dx = Math.max(left - spawn.x, 0, spawn.x - (left + cell));
+            const dz = Math.max(top - spawn.z, 0, spawn.z - (top + cell));
+            if (Math.hypot(dx, dz) < coilRadius) {
+                throw new Error(`Level ${id}: obstacle at column ${col + 1}, row ${r + 1} is within the spawn coil (${coilRadius.toFixed(1)} units)`);
+            }
+        }
+    }
+
+    // Zones must lie inside the walls
+    const validZone = (zone: unknown): zone is Zone =>
+        isRecord(zone) && isNumber(zone.x) && isNumber(zone.z) && isNumber(zone.width) && isNumber(zone.depth) &&
+        zone.width > 0 && zone.depth > 0 &&
+        Math.abs(zone.x) + zone.width / 2 <= halfW && Math.abs(zone.z) + zone.depth / 2 <= halfD;
+    const { fruitCount, fruitZones, organisms } = raw;
+    if (!isInteger(fruitCount) || fruitCount < 1) {
+        throw new Error(`Level ${id}: fruitCount must be at least 1`);
+    }
+    if (!isArrayOf(fruitZones, validZone)) {
+        throw new Error(`Level ${id}: fruit zones are malformed`);
+    }
+    if (!isRecord(organisms) || !isInteger(organisms.count) || organisms.count < 0 || !isArrayOf(organisms.zones, validZone)) {
+        throw new Error(`Level ${id}: organism population is malformed`);
+    }
+
+    const win = raw.win;
+    let winCondition: WinCondition;
+    if (isRecord(win) && win.type === 'fruit' && isInteger(win.count) && win.count > 0) {
+        winCondition = { type: 'fruit', count: win.count };
+    } else if (isRecord(win) && win.type === 'survive' && isNumber(win.seconds) && win.seconds > 0) {
+        winCondition = { type: 'survive', seconds: win.seconds };
+    } else {
+        throw new Error(`Level ${id}: unknown win condition`);
+    }
+    const parTime = raw.parTime;
+    if (parTime !== undefined && !(isNumber(parTime) && parTime > 0)) {
+        throw new Error(`Level ${id}: par time must be a positive number of seconds`);
+    }
+    if (typeof raw.classic !== 'boolean') {
+        throw new Error(`Level ${id}: classic must be true or false`);
+    }
+
+    return {
+        version: LEVEL_VERSION,
+        id,
+        name,
+        columns,
+        rows,
+        obstacles,
+        spawn: { x: spawn.x, z: spawn.z },
+        fruitCount,
+        fruitZones,
+        organisms: { count: organisms.count, zones: organisms.zones },
+        win: winCondition,
+        ...(parTime !== undefined ? { parTime } : {}),
+        classic: raw.classic
+    };
+}
@@ -0,0 +1,549 @@
+import * as THREE from 'three';
+import { CONFIG } from '../constants';
+import { CAMPAIGN } from './Campaign';
+import { LEVEL_VERSION, LEVEL_SIZE, parseLevel, serializeLevel, validateLevel } from './Level';
+import type { LevelData, Zone } from './Level';
+
+type Tool = 'wall' | 'erase' | 'spawn' | 'fruitZone' | 'organismZone';
+
+const TOOLS: { tool: Tool, label: string }[] = [
+    { tool: 'wall', label: 'Wall' },
+    { tool: 'erase', label: 'Erase' },
+    { tool: 'spawn', label: 'Spawn' },
+    { tool: 'fruitZone', label: 'Fruit zone' },
+    { tool: 'organismZone', label: 'Organism zone' }
+];
+
+export interface LevelEditorHandlers {
+    preview: (level: LevelData) => void; // Show the draft in the world (no simulation)
+    play: (level: LevelData) => void;    // Test-play a valid draft
+    edit: () => void;                    // Test play stopped, back to editing
+}
+
+function createLevel(columns: number, rows: number): LevelData {
+    return {
+        version: LEVEL_VERSION,
+        id: 'custom',
+        name: 'Untitled',
+        columns,
+        rows,
+        obstacles: Array(rows).fill('.'.repeat(columns)),
+        spawn: { x: 0, z: 0 },
+        fruitCount: 5,
+        fruitZones: [],
+        organisms: { count: 6, zones: [] },
+        win: { type: 'fruit', count: 10 },
+        parTime: 60,
+        classic: false
+    };
+}
+
+/**
+ * Level Editor
+ * Enabled with ?editor=1. Paint obstacles, drag out fruit and organism spawn
+ * zones and place the snake's spawn point on the grid (seen through the game
+ * camera), set the world size and rules in a side panel, then test-play the
+ * draft or export/import it as level JSON (see Level.ts).
+ * mesh holds the zone outlines; Game adds it to the scene.
+ */
+export class LevelEditor {
+    public readonly mesh = new THREE.Group();
+    private level: LevelData = createLevel(32, 20);
+    private tool: Tool = 'wall';
+    private playing: boolean = false;
+    private handlers: LevelEditorHandlers;
+    private camera: THREE.Camera;
+    private canvas: HTMLElement;
+
+    // Zone being dragged out: first and current cell
+    private drag: { col: number, row: number, endCol: number, endRow: number } | null = null;
+    private painting: boolean = false;
+
+    private element: HTMLDivElement;
+    private editPanel: HTMLDivElement;
+    private playPanel: HTMLDivElement;
+    private messageElement!: HTMLDivElement; // Created with the edit panel
+    private toolButtons: Map<Tool, HTMLButtonElement> = new Map();
+    private fields: Record<string, HTMLInputElement | HTMLSelectElement> = {};
+
+    private materials = {
+        fruitZone: new THREE.LineBasicMaterial({ color: 0xffcc00, depthTest: false, transparent: true }),
+        organismZone: new THREE.LineBasicMaterial({ color: 0xcc66ff, depthTest: false, transparent: true }),
+        drag: new THREE.LineBasicMaterial({ color: 0xffffff, depthTest: false, transparent: true })
+    };
+
+    constructor(containerId: string, camera: THREE.Camera, canvas: HTMLElement, handlers: LevelEditorHandlers) {
+        const container = document.getElementById(containerId) as HTMLElement;
+        this.camera = camera;
+        this.canvas = canvas;
+        this.handlers = handlers;
+
+        this.element = document.createElement('div');
+        this.element.style.position = 'absolute';
+        this.element.style.top = '40px';
+        this.element.style.left = '10px';
+        this.element.style.padding = '10px';
+        this.element.style.background = 'rgba(0, 0, 0, 0.75)';
+        this.element.style.color = '#ffffff';
+        this.element.style.fontFamily = 'monospace';
+        this.element.style.fontSize = '13px';
+
+        this.editPanel = this.createEditPanel();
+        this.element.appendChild(this.editPanel);
+
+        this.playPanel = document.createElement('div');
+        this.playPanel.style.display = 'none';
+        this.playPanel.appendChild(this.createButton('Back to Editor (Esc)', () => this.stopPlaying()));
+        this.element.appendChild(this.playPanel);
+
+        container.appendChild(this.element);
+
+        canvas.addEventListener('pointerdown', (e) => this.onPointerDown(e));
+        canvas.addEventListener('pointermove', (e) => this.onPointerMove(e));
+        window.addEventListener('pointerup', () => this.onPointerUp());
+
+        // Esc leaves test play, unless the controls screen took it (it prevents the default).
+        // Taking it here keeps the game from also opening its pause menu.
+        window.addEventListener('keydown', (e) => {
+            if (e.code === 'Escape' && this.playing && !e.defaultPrevented) {
+                e.preventDefault();
+                this.stopPlaying();
+            }
+        });
+    }
+
+    /**
+     * Start editing: show the panel and preview the draft
+     */
+    public open() {
+        this.changed();
+    }
+
+    public isEditing(): boolean {
+        return !this.playing;
+    }
+
+    private createEditPanel(): HTMLDivElement {
+        const panel = document.createElement('div');
+        panel.style.display = 'flex';
+        panel.style.flexDirection = 'column';
+        panel.style.gap = '6px';
+
+        const title = document.createElement('div');
+        title.innerText = 'LEVEL EDITOR';
+        title.style.fontSize = '18px';
+        title.style.fontWeight = 'bold';
+        panel.appendChild(title);
+
+        // Start from scratch or from a campaign level
+        const template = document.createElement('select');
+        template.style.fontFamily = 'monospace';
+        template.add(new Option('New level', ''));
+        CAMPAIGN.forEach(level => template.add(new Option(level.name, level.id)));
+        template.addEventListener('change', () => {
+            const source = CAMPAIGN.find(level => level.id === template.value);
+            this.level = source ? structuredClone(source) : createLevel(32, 20);
+            this.changed();
+        });
+        panel.appendChild(template);
+
+        const toolRow = document.createElement('div');
+        toolRow.style.display = 'flex';
+        toolRow.style.flexWrap = 'wrap';
+        toolRow.style.gap = '4px';
+        toolRow.style.maxWidth = '260px';
+        for (const { tool, label } of TOOLS) {
+            const button = this.createButton(label, () => {
+                this.tool = tool;
+                this.refreshTools();
+            });
+            this.toolButtons.set(tool, button);
+            toolRow.appendChild(button);
+        }
+        panel.appendChild(toolRow);
+        this.refreshTools();
+
+        const clearRow = document.createElement('div');
+        clearRow.style.display = 'flex';
+        clearRow.style.flexWrap = 'wrap';
+        clearRow.style.gap = '4px';
+        clearRow.style.maxWidth = '260px';
+        clearRow.appendChild(this.createButton('Clear walls', () => {
+            this.level.obstacles = Array(this.level.rows).fill('.'.repeat(this.level.columns));
+            this.changed();
+        }));
+        clearRow.appendChild(this.createButton('Clear fruit zones', () => {
+            this.level.fruitZones = [];
+            this.changed();
+        }));
+        clearRow.appendChild(this.createButton('Clear organism zones', () => {
+            this.level.organisms.zones = [];
+            this.changed();
+        }));
+        panel.appendChild(clearRow);
+
+        const form = document.createElement('div');
+        form.style.display = 'grid';
+        form.style.gridTemplateColumns = 'auto 8em';
+        form.style.gap = '4px 8px';
+        form.style.alignItems = 'center';
+
+        this.addField(form, 'id', 'Id', 'text', value => { this.level.id = value; });
+        this.addField(form, 'name', 'Name', 'text', value => { this.level.name = value; });
+        this.addField(form, 'columns', 'Columns', 'number', value => this.setSize(parseInt(value, 10), this.level.rows));
+        this.addField(form, 'rows', 'Rows', 'number', value => this.setSize(this.level.columns, parseInt(value, 10)));
+        this.addField(form, 'fruitCount', 'Fruit on grid', 'number', value => { this.level.fruitCount = parseInt(value, 10); });
+        this.addField(form, 'organisms', 'Organisms', 'number', value => { this.level.organisms.count = parseInt(value, 10); });
+
+        const winLabel = document.createElement('span');
+        winLabel.innerText = 'Win';
+        form.appendChild(winLabel);
+        const winType = document.createElement('select');
+        winType.style.fontFamily = 'monospace';
+        winType.add(new Option('Eat fruit', 'fruit'));
+        winType.add(new Option('Survive (s)', 'survive'));
+        winType.addEventListener('change', () => this.setWin());
+        this.fields.winType = winType;
+        form.appendChild(winType);
+
+        this.addField(form, 'winGoal', 'Goal', 'number', () => this.setWin());
+        this.addField(form, 'parTime', 'Par time (s)', 'number', value => {
+            const par = parseFloat(value);
+            if (Number.isNaN(par)) delete this.level.parTime;
+            else this.level.parTime = par;
+        });
+        this.addField(form, 'classic', 'Classic', 'checkbox', () => {
+            this.level.classic = (this.fields.classic as HTMLInputElement).checked;
+        });
+        panel.appendChild(form);
+
+        const fileRow = document.createElement('div');
+        fileRow.style.display = 'flex';
+        fileRow.style.gap = '4px';
+        fileRow.appendChild(this.createButton('Test Play', () => this.play()));
+        fileRow.appendChild(this.createButton('Export', () => this.exportLevel()));
+        fileRow.appendChild(this.createButton('Import', () => this.importLevel()));
+        panel.appendChild(fileRow);
+
+        this.messageElement = document.createElement('div');
+        this.messageElement.style.minHeight = '1.2em';
+        this.messageElement.style.maxWidth = '260px';
+        this.messageElement.style.color = '#ffcc00';
+        panel.appendChild(this.messageElement);
+
+        const help = document.createElement('div');
+        help.innerText = 'Click/drag on the grid to paint.\nZones: drag a rectangle.';
+        help.style.color = '#888888';
+        panel.appendChild(help);
+
+        return panel;
+    }
+
+    private addField(form: HTMLElement, key: string, label: string, type: string, onInput: (value: string) => void) {
+        const name = document.createElement('span');
+        name.innerText = label;
+        form.appendChild(name);
+
+        const input = document.createElement('input');
+        input.type = type;
+        input.style.fontFamily = 'monospace';
+        if (type !== 'checkbox') input.style.width = '8em';
+        // Keep typing away from the game's key handling (effects, fullscreen)
+        input.addEventListener('keydown', (e) => e.stopPropagation());
+        input.addEventListener('change', () => {
+            onInput(input.value);
+            this.changed();
+        });
+        this.fields[key] = input;
+        form.appendChild(input);
+    }
+
+    private refreshFields() {
+        const level = this.level;
+        const set = (key: string, value: string) => { this.fields[key].value = value; };
+        set('id', level.id);
+        set('name', level.name);
+        set('columns', String(level.columns));
+        set('rows', String(level.rows));
+        set('fruitCount', String(level.fruitCount));
+        set('organisms', String(level.organisms.count));
+        set('winType', level.win.type);
+        set('winGoal', String(level.win.type === 'fruit' ? level.win.count : level.win.seconds));
+        set('parTime', level.parTime !== undefined ? String(level.parTime) : '');
+        (this.fields.classic as HTMLInputElement).checked = level.classic;
+    }
+
+    private refreshTools() {
+        this.toolButtons.forEach((button, tool) => {
+            button.style.fontWeight = tool === this.tool ? 'bold' : 'normal';
+            button.style.background = tool === this.tool ? '#ffcc00' : '';
+        });
+    }
+
+    private setWin() {
+        const goal = parseFloat(this.fields.winGoal.value);
+        this.level.win = this.fields.winType.value === 'survive'
+            ? { type: 'survive', seconds: goal }
+            : { type: 'fruit', count: Math.round(goal) };
+    }
+
+    /**
+     * Change the world size, keeping the layout centred. Zones that no
+     * longer fit are dropped and the spawn point is pulled inside.
+     */
+    private setSize(columns: number, rows: number) {
+        if (!Number.isInteger(columns) || !Number.isInteger(rows)) return;
+        columns = Math.max(LEVEL_SIZE.MIN, Math.min(columns, LEVEL_SIZE.MAX));
+        rows = Math.max(LEVEL_SIZE.MIN, Math.min(rows, LEVEL_SIZE.MAX));
+        const level = this.level;
+
+        const left = Math.floor((columns - level.columns) / 2);
+        const top = Math.floor((rows - level.rows) / 2);
+        const obstacles: string[] = [];
+        for (let row = 0; row < rows; row++) {
+            let line = '';
+            for (let col = 0; col < columns; col++) {
+                line += level.obstacles[row - top]?.[col - left] ?? '.';
+            }
+            obstacles.push(line);
+        }
+        level.columns = columns;
+        level.rows = rows;
+        level.obstacles = obstacles;
+
+        const halfW = columns * CONFIG.GRID.CELL_SIZE / 2;
+        const halfD = rows * CONFIG.GRID.CELL_SIZE / 2;
+        const fits = (zone: Zone) => Math.abs(zone.x) + zone.width / 2 <= halfW && Math.abs(zone.z) + zone.depth / 2 <= halfD;
+        level.fruitZones = level.fruitZones.filter(fits);
+        level.organisms.zones = level.organisms.zones.filter(fits);
+
+        const cell = CONFIG.GRID.CELL_SIZE;
+        level.spawn.x = Math.max(-halfW + cell, Math.min(halfW - cell, level.spawn.x));
+        level.spawn.z = Math.max(-halfD + cell, Math.min(halfD - cell, level.spawn.z));
+    }
+
+    /**
+     * The draft changed: redraw zones and preview it in the world
+     */
+    private changed() {
+        this.refreshFields(); // Clamped or dropped values show as they are
+        this.setMessage('');
+        this.updateOutlines();
+        this.handlers.preview(structuredClone(this.level));
+    }
+
+    // --- Pointer ---
+
+    /**
+     * Grid cell under the pointer (may be outside the level)
+     */
+    private pickCell(e: PointerEvent): { col: number, row: number, x: number, z: number } {
+        const rect = this.canvas.getBoundingClientRect();
+        const ndc = new THREE.Vector3(
+            (e.clientX - rect.left) / rect.width * 2 - 1,
+            -((e.clientY - rect.top) / rect.height * 2 - 1),
+            0
+        ).unproject(this.camera);
+
+        const cell = CONFIG.GRID.CELL_SIZE;
+        const x = ndc.x;
+        const z = ndc.z;
+        return {
+            col: Math.floor((x + this.level.columns * cell / 2) / cell),
+            row: Math.floor((z + this.level.rows * cell / 2) / cell),
+            x,
+            z
+        };
+    }
+
+    private onPointerDown(e: PointerEvent) {
+        if (this.playing || e.button !== 0) return;
+        const { col, row, x, z } = this.pickCell(e);
+
+        if (this.tool === 'spawn') {
+            this.placeSpawn(x, z);
+        } else if (this.tool === 'fruitZone' || this.tool === 'organismZone') {
+            this.drag = { col, row, endCol: col, endRow: row };
+            this.updateOutlines();
+        } else {
+            this.painting = true;
+            this.paint(col, row);
+        }
+    }
+
+    private onPointerMove(e: PointerEvent) {
+        if (this.playing) return;
+        const { col, row } = this.pickCell(e);
+
+        if (this.drag && (this.drag.endCol !== col || this.drag.endRow !== row)) {
+            this.drag.endCol = col;
+            this.drag.endRow = row;
+            this.updateOutlines();
+        } else if (this.painting) {
+            this.paint(col, row);
+        }
+    }
+
+    private onPointerUp() {
+        this.painting = false;
+        if (!this.drag) return;
+
+        const zone = this.dragToZone(this.drag);
+        this.drag = null;
+        if (zone) {
+            if (this.tool === 'fruitZone') this.level.fruitZones.push(zone);
+            else this.level.organisms.zones.push(zone);
+        }
+        this.changed();
+    }
+
+    private paint(col: number, row: number) {
+        const level = this.level;
+        if (col < 0 || row < 0 || col >= level.columns || row >= level.rows) return;
+
+        const char = this.tool === 'wall' ? '#' : '.';
+        const line = level.obstacles[row];
+        if (line[col] === char) return;
+        level.obstacles[row] = line.slice(0, col) + char + line.slice(col + 1);
+        this.changed();
+    }
+
+    /**
+     * Snap to the nearest cell corner, where a 2x2 window (the snake head) is centred
+     */
+    private placeSpawn(x: number, z: number) {
+        const cell = CONFIG.GRID.CELL_SIZE;
+        const halfW = this.level.columns * cell / 2;
+        const halfD = this.level.rows * cell / 2;
+        const snap = (v: number, half: number) =>
+            Math.max(-half + cell, Math.min(half - cell, Math.round((v + half) / cell) * cell - half));
+        this.level.spawn = { x: snap(x, halfW), z: snap(z, halfD) };
+        this.changed();
+    }
+
+    /**
+     * Cells covered by a drag, clipped to the level, as a zone (null if none)
+     */
+    private dragToZone(drag: { col: number, row: number, endCol: number, endRow: number }): Zone | null {
+        const level = this.level;
+        const col0 = Math.max(0, Math.min(drag.col, drag.endCol));
+        const col1 = Math.min(level.columns - 1, Math.max(drag.col, drag.endCol));
+        const row0 = Math.max(0, Math.min(drag.row, drag.endRow));
+        const row1 = Math.min(level.rows - 1, Math.max(drag.row, drag.endRow));
+        if (col0 > col1 || row0 > row1) return null;
+
+        const cell = CONFIG.GRID.CELL_SIZE;
+        const width = (col1 - col0 + 1) * cell;
+        const depth = (row1 - row0 + 1) * cell;
+        return {
+            x: col0 * cell + width / 2 - level.columns * cell / 2,
+            z: row0 * cell + depth / 2 - level.rows * cell / 2,
+            width,
+            depth
+        };
+    }
+
+    private updateOutlines() {
+        for (const child of this.mesh.children) {
+            if (child instanceof THREE.Line) child.geometry.dispose();
+        }
+        this.mesh.clear();
+
+        for (const zone of this.level.fruitZones) this.addOutline(zone, this.materials.fruitZone);
+        for (const zone of this.level.organisms.zones) this.addOutline(zone, this.materials.organismZone);
+        const dragZone = this.drag && this.dragToZone(this.drag);
+        if (dragZone) this.addOutline(dragZone, this.materials.drag);
+    }
+
+    private addOutline(zone: Zone, material: THREE.LineBasicMaterial) {
+        const x0 = zone.x - zone.width / 2;
+        const x1 = zone.x + zone.width / 2;
+        const z0 = zone.z - zone.depth / 2;
+        const z1 = zone.z + zone.depth / 2;
+        const points = [
+            new THREE.Vector3(x0, 1.0, z0), new THREE.Vector3(x1, 1.0, z0),
+            new THREE.Vector3(x1, 1.0, z1), new THREE.Vector3(x0, 1.0, z1),
+            new THREE.Vector3(x0, 1.0, z0)
+        ];
+        const line = new THREE.Line(new THREE.BufferGeometry().setFromPoints(points), material);
+        line.renderOrder = 999;
+        this.mesh.add(line);
+    }
+
+    // --- Test play and files ---
+
+    /**
+     * Validated copy of the draft, or null (with the reason shown) if it cannot be played
+     */
+    private getValidLevel(): LevelData | null {
+        try {
+            return validateLevel(structuredClone(this.level));
+        } catch (err) {
+            this.setMessage((err as Error).message);
+            return null;
+        }
+    }
+
+    private play() {
+        const level = this.getValidLevel();
+        if (!level) return;
+
+        this.playing = true;
+        this.editPanel.style.display = 'none';
+        this.playPanel.style.display = 'block';
+        this.mesh.visible = false;
+        this.handlers.play(level);
+    }
+
+    private stopPlaying() {
+        this.playing = false;
+        this.editPanel.style.display = 'flex';
+        this.playPanel.style.display = 'none';
+        this.mesh.visible = true;
+        this.handlers.edit();
+        this.changed();
+    }
+
+    private exportLevel() {
+        const level = this.getValidLevel();
+        if (!level) return;
+
+        const blob = new Blob([serializeLevel(level)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${level.id}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+
+    private importLevel() {
+        const fileInput = document.createElement('input');
+        fileInput.type = 'file';
+        fileInput.accept = '.json,application/json';
+        fileInput.addEventListener('change', async () => {
+            const file = fileInput.files?.[0];
+            if (!file) return;
+            try {
+                this.level = parseLevel(await file.text());
+                this.changed();
+            } catch (err) {
+                console.warn('[LevelEditor] Could not import level', err);
+                this.setMessage(`Could not import level: ${(err as Error).message}`);
+            }
+        });
+        fileInput.click();
+    }
+
+    private createButton(text: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.innerText = text;
+        button.style.fontFamily = 'monospace';
+        button.addEventListener('click', () => onClick());
+        return button;
+    }
+
+    private setMessage(text: string) {
+        this.messageElement.innerText = text;
+    }
+}
@@ -0,0 +1,125 @@
+import type { Input } from './Input';
+
+export interface MenuItem {
+    label: string;
+    action: () => void;
+}
+
+/**
+ * Menu Screen
+ * DOM panel with a title and a vertical list of choices (title screen, pause
+ * menu). Up/Down move the selection, Confirm picks it, Pause/Back runs the
+ * onBack handler; the mouse works too.
+ */
+export class MenuScreen {
+    private element: HTMLDivElement;
+    private titleElement: HTMLDivElement;
+    private subtitleElement: HTMLDivElement;
+    private listElement: HTMLDivElement;
+    private items: MenuItem[] = [];
+    private buttons: HTMLButtonElement[] = [];
+    private selected: number = 0;
+    private onBack: (() => void) | null = null;
+
+    constructor(containerId: string) {
+        const container = document.getElementById(containerId) as HTMLElement;
+
+        this.element = document.createElement('div');
+        this.element.style.position = 'absolute';
+        this.element.style.inset = '0';
+        this.element.style.display = 'none';
+        this.element.style.flexDirection = 'column';
+        this.element.style.alignItems = 'center';
+        this.element.style.justifyContent = 'center';
+        this.element.style.gap = '16px';
+        this.element.style.background = 'rgba(0, 0, 0, 0.55)';
+        this.element.style.color = '#ffffff';
+        this.element.style.fontFamily = 'monospace';
+
+        this.titleElement = document.createElement('div');
+        this.titleElement.style.fontSize = '48px';
+        this.titleElement.style.fontWeight = 'bold';
+        this.element.appendChild(this.titleElement);
+
+        this.subtitleElement = document.createElement('div');
+        this.subtitleElement.style.fontSize = '16px';
+        this.subtitleElement.style.color = '#888888';
+        this.element.appendChild(this.subtitleElement);
+
+        this.listElement = document.createElement('div');
+        this.listElement.style.display = 'flex';
+        this.listElement.style.flexDirection = 'column';
+        this.listElement.style.gap = '8px';
+        this.element.appendChild(this.listElement);
+
+        container.appendChild(this.element);
+    }
+
+    /**
+     * Show the menu with the first item selected. onBack: Pause/Back (and Esc, via Game)
+     */
+    public show(title: string, items: MenuItem[], subtitle: string = '', onBack: (() => void) | null = null) {
+        this.titleElement.innerText = title;
+        this.subtitleElement.innerText = subtitle;
+        this.items = items;
+        this.onBack = onBack;
+        this.selected = 0;
+
+        this.listElement.innerHTML = '';
+        this.buttons = items.map((item, index) => {
+            const button = document.createElement('button');
+            button.innerText = item.label;
+            button.style.fontFamily = 'monospace';
+            button.style.fontSize = '18px';
+            button.style.padding = '8px 20px';
+            button.style.cursor = 'pointer';
+            button.addEventListener('mouseenter', () => this.select(index));
+            button.addEventListener('click', () => item.action());
+            this.listElement.appendChild(button);
+            return button;
+        });
+        this.select(0);
+        this.element.style.display = 'flex';
+    }
+
+    public hide() {
+        this.element.style.display = 'none';
+        this.onBack = null;
+    }
+
+    public isOpen(): boolean {
+        return this.element.style.display !== 'none';
+    }
+
+    /**
+     * Keyboard/gamepad navigation. Call once per tick, before Input.endFrame.
+     */
+    public update(input: Input) {
+        if (!this.isOpen() || this.items.length === 0) return;
+
+        if (input.isPressedByAnyPlayer('up')) {
+            this.select((this.selected + this.items.length - 1) % this.items.length);
+        } else if (input.isPressedByAnyPlayer('down')) {
+            this.select((this.selected + 1) % this.items.length);
+        } else if (input.isConfirmPressed()) {
+            this.items[this.selected].action();
+        } else if (input.isPressedByAnyPlayer('pause')) {
+            this.back();
+        }
+    }
+
+    /**
+     * Run the back handler, if the menu has one
+     */
+    public back() {
+        this.onBack?.();
+    }
+
+    private select(index: number) {
+        this.selected = index;
+        this.buttons.forEach((button, i) => {
+            button.style.background = i === index ? '#ffcc00' : '';
+            button.style.fontWeight = i === index ? 'bold' : 'normal';
+        });
+    }
+}
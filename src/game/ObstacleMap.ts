@@ -0,0 +1,252 @@
+import { CONFIG } from '../constants';
+import { RNG } from '../utils/Random';
+
+/**
+ * Obstacle Map
+ * Cell-based layout of static obstacle blocks, plus the reachability data
+ * used to pick spawn points the snake can actually get to.
+ *
+ * Reachability is tracked on 2x2 cell "windows": the snake head (radius +
+ * safety margin) fits inside a fully open 2x2 window, and neighbouring open
+ * windows overlap, so the head can slide from one to the next.
+ */
+export class ObstacleMap {
+    public readonly cols: number;
+    public readonly rows: number;
+    public readonly cellSize: number;
+
+    private cells: Uint8Array; // 1 = obstacle
+    private reachable: Uint8Array; // Per window (top-left cell index), 1 = reachable from start
+    private originX: number; // World x of the left edge of column 0
+    private originZ: number; // World z of the top edge of row 0
+
+    constructor(width: number, depth: number) {
+        this.cellSize = CONFIG.GRID.CELL_SIZE;
+        this.cols = Math.floor(width / this.cellSize);
+        this.rows = Math.floor(depth / this.cellSize);
+        this.originX = -this.cols * this.cellSize / 2;
+        this.originZ = -this.rows * this.cellSize / 2;
+        this.cells = new Uint8Array(this.cols * this.rows);
+        this.reachable = new Uint8Array(this.cols * this.rows);
+    }
+
+    /**
+     * Place random obstacle clusters until the target density is reached.
+     * A cluster is rejected if it would cut any open window off from the
+     * first start position. Every open window stays reachable, so all
+     * starts (one per snake) can reach each other and every spawn point.
+     */
+    public generate(starts: { x: number, z: number }[], density: number = CONFIG.GRID.TARGET_OBSTACLE_DENSITY) {
+        this.cells.fill(0);
+
+        // Fresh sequence each time: same seed + same world size = same layout
+        const rng = RNG.fork('layout');
+        const conf = CONFIG.GRID.OBSTACLES;
+        const target = Math.floor(this.cols * this.rows * density);
+        let placed = 0;
+
+        const startCells = starts.map(s => ({ col: this.worldToCol(s.x), row: this.worldToRow(s.z) }));
+        const clearR = conf.START_CLEAR_RADIUS / this.cellSize;
+        const first = [starts[0]];
+
+        const isClearZone = (col: number, row: number) => startCells.some(start => {
+            const dc = col + 0.5 - start.col;
+            const dr = row + 0.5 - start.row;
+            return dc * dc + dr * dr < clearR * clearR;
+        });
+
+        this.computeReachable(first);
+
+        for (let attempt = 0; attempt < conf.MAX_ATTEMPTS && placed < target; attempt++) {
+            const size = conf.CLUSTER_SIZE.MIN + Math.floor(rng.next() * (conf.CLUSTER_SIZE.MAX - conf.CLUSTER_SIZE.MIN + 1));
+
+            // Random walk from a free seed cell
+            let col = Math.floor(rng.next() * this.cols);
+            let row = Math.floor(rng.next() * this.rows);
+            const added: number[] = [];
+
+            for (let step = 0; step < size * 3 && added.length < size; step++) {
+                const idx = row * this.cols + col;
+                if (!this.cells[idx] && !isClearZone(col, row)) {
+                    this.cells[idx] = 1;
+                    added.push(idx);
+                }
+
+                const dir = Math.floor(rng.next() * 4);
+                if (dir === 0) col = Math.min(this.cols - 1, col + 1);
+                else if (dir === 1) col = Math.max(0, col - 1);
+                else if (dir === 2) row = Math.min(this.rows - 1, row + 1);
+                else row = Math.max(0, row - 1);
+            }
+
+            if (added.length === 0) continue;
+
+            if (this.computeReachable(first)) {
+                placed += added.length;
+            } else {
+                // Cluster would seal off part of the map - undo it
+                for (const idx of added) this.cells[idx] = 0;
+            }
+        }
+
+        // Refresh reachability for the final layout
+        this.computeReachable(first);
+    }
+
+    /**
+     * Rebuild the map from existing obstacle cells (world centres, e.g. kept
+     * across a resize) and refresh reachability: a window counts as reachable
+     * when any of the starts (one per snake) can get to it.
+     * A cell that does not line up with this grid blocks every cell it
+     * overlaps, so spawn points stay on the safe side.
+     */
+    public place(cells: { x: number, z: number }[], starts: readonly { x: number, z: number }[]) {
+        this.cells.fill(0);
+
+        const half = this.cellSize * 0.499;
+        for (const cell of cells) {
+            const c0 = Math.max(0, Math.floor(this.worldToCol(cell.x - half)));
+            const c1 = Math.min(this.cols - 1, Math.floor(this.worldToCol(cell.x + half)));
+            const r0 = Math.max(0, Math.floor(this.worldToRow(cell.z - half)));
+            const r1 = Math.min(this.rows - 1, Math.floor(this.worldToRow(cell.z + half)));
+            for (let row = r0; row <= r1; row++) {
+                for (let col = c0; col <= c1; col++) this.cells[row * this.cols + col] = 1;
+            }
+        }
+
+        this.computeReachable(starts);
+    }
+
+    /**
+     * Use an authored layout: one string per row, '#' = obstacle (see LevelData).
+     * Pockets the start cannot reach are allowed; nothing spawns in them.
+     */
+    public load(layout: readonly string[], start: { x: number, z: number }) {
+        this.cells.fill(0);
+        for (let row = 0; row < this.rows; row++) {
+            for (let col = 0; col < this.cols; col++) {
+                if (layout[row]?.[col] === '#') this.cells[row * this.cols + col] = 1;
+            }
+        }
+
+        this.computeReachable([start]);
+    }
+
+    /**
+     * Flood fill open windows from the start positions (the union of what each reaches).
+     * Returns true if every open window was reached.
+     */
+    private computeReachable(starts: readonly { x: number, z: number }[]): boolean {
+        this.reachable.fill(0);
+
+        const wCols = this.cols - 1;
+        const wRows = this.rows - 1;
+        if (wCols <= 0 || wRows <= 0) return true;
+
+        let openCount = 0;
+        for (let r = 0; r < wRows; r++) {
+            for (let c = 0; c < wCols; c++) {
+                if (this.isWindowOpen(c, r)) openCount++;
+            }
+        }
+
+        // Start windows: the ones centred nearest each start position
+        const queue: number[] = [];
+        for (const start of starts) {
+            const sc = Math.max(0, Math.min(wCols - 1, Math.round(this.worldToCol(start.x)) - 1));
+            const sr = Math.max(0, Math.min(wRows - 1, Math.round(this.worldToRow(start.z)) - 1));
+            const idx = sr * this.cols + sc;
+            if (this.reachable[idx] || !this.isWindowOpen(sc, sr)) continue;
+            this.reachable[idx] = 1;
+            queue.push(idx);
+        }
+        if (queue.length === 0) return openCount === 0;
+
+        let reached = 0;
+        while (queue.length > 0) {
+            const idx = queue.pop()!;
+            reached++;
+            const c = idx % this.cols;
+            const r = Math.floor(idx / this.cols);
+
+            const neighbours = [[c + 1, r], [c - 1, r], [c, r + 1], [c, r - 1]];
+            for (const [nc, nr] of neighbours) {
+                if (nc < 0 || nr < 0 || nc >= wCols || nr >= wRows) continue;
+                const nIdx = nr * this.cols + nc;
+                if (this.reachable[nIdx] || !this.isWindowOpen(nc, nr)) continue;
+                this.reachable[nIdx] = 1;
+                queue.push(nIdx);
+            }
+        }
+
+        return reached === openCount;
+    }
+
+    private isWindowOpen(col: number, row: number): boolean {
+        return !this.isBlocked(col, row) &&
+            !this.isBlocked(col + 1, row) &&
+            !this.isBlocked(col, row + 1) &&
+            !this.isBlocked(col + 1, row + 1);
+    }
+
+    /**
+     * Cells outside the map count as open (the outer walls are handled separately)
+     */
+    public isBlocked(col: number, row: number): boolean {
+        if (col < 0 || row < 0 || col >= this.cols || row >= this.rows) return false;
+        return this.cells[row * this.cols + col] === 1;
+    }
+
+    /**
+     * World positions of all reachable windows (centre of each 2x2 block)
+     */
+    public getReachablePoints(): { x: number, z: number }[] {
+        const points: { x: number, z: number }[] = [];
+        for (let r = 0; r < this.rows - 1; r++) {
+            for (let c = 0; c < this.cols - 1; c++) {
+                if (!this.reachable[r * this.cols + c]) continue;
+                points.push({
+                    x: this.originX + (c + 1) * this.cellSize,
+                    z: this.originZ + (r + 1) * this.cellSize
+                });
+            }
+        }
+        return points;
+    }
+
+    /**
+     * All obstacle cells with their world centre and neighbour mask
+     * (1=N, 2=E, 4=S, 8=W, matching ObstacleVisuals uMask)
+     */
+    public getObstacleCells(): { col: number, row: number, x: number, z: number, mask: number }[] {
+        const result: { col: number, row: number, x: number, z: number, mask: number }[] = [];
+        for (let row = 0; row < this.rows; row++) {
+            for (let col = 0; col < this.cols; col++) {
+                if (!this.isBlocked(col, row)) continue;
+
+                let mask = 0;
+                if (this.isBlocked(col, row - 1)) mask |= 1; // North = -Z (screen up)
+                if (this.isBlocked(col + 1, row)) mask |= 2;
+                if (this.isBlocked(col, row + 1)) mask |= 4;
+                if (this.isBlocked(col - 1, row)) mask |= 8;
+
+                result.push({
+                    col,
+                    row,
+                    x: this.originX + (col + 0.5) * this.cellSize,
+                    z: this.originZ + (row + 0.5) * this.cellSize,
+                    mask
+                });
+            }
+        }
+        return result;
+    }
+
+    private worldToCol(x: number): number {
+        return (x - this.originX) / this.cellSize;
+    }
+
+    private worldToRow(z: number): number {
+        return (z - this.originZ) / this.cellSize;
+    }
+}
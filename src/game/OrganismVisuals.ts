@@ -1,5 +1,8 @@
 import * as THREE from 'three';
 import { CONFIG } from '../constants';
+import { RNG } from '../utils/Random';
+
+const rng = RNG.stream('organisms');
 
 const ORGANISM_VERTEX_SHADER = `
 varying vec2 vUv;
@@ -185,7 +188,10 @@ export class OrganismVisuals {
         this.eyePool.push(eye);
     }
 
-    public update(nodes: { x: number, z: number, r: number, hasEye?: boolean }[], dt: number) {
+    /**
+     * scale (0..1) shrinks the eyes with the blob while it appears or vanishes
+     */
+    public update(nodes: { x: number, z: number, r: number, hasEye?: boolean }[], dt: number, scale: number = 1) {
         this.material.uniforms.uTime.value += dt;
         const t = this.material.uniforms.uTime.value;
 
@@ -224,7 +230,7 @@ export class OrganismVisuals {
                     eyeState = {
                         mesh: mesh,
                         blinkTimer: 0,
-                        nextBlink: minB + Math.random() * (maxB - minB),
+                        nextBlink: minB + rng.next() * (maxB - minB),
                         isBlinking: false
                     };
                     this.eyes.set(i, eyeState);
@@ -243,7 +249,7 @@ export class OrganismVisuals {
                         eyeState.isBlinking = false;
                         const minB = eyesConf.BLINK_INTERVAL.MIN;
                         const maxB = eyesConf.BLINK_INTERVAL.MAX;
-                        eyeState.nextBlink = minB + Math.random() * (maxB - minB);
+                        eyeState.nextBlink = minB + rng.next() * (maxB - minB);
                         eyeState.blinkTimer = 0;
                     } else {
                         // Close 1 -> 0 -> 1
@@ -257,7 +263,7 @@ export class OrganismVisuals {
                 }
 
                 // Apply Scale (Squash Y to blink)
-                mesh.scale.set(0.7, openY, 0.7); // 0.7 is base visual scale
+                mesh.scale.set(0.7 * scale, openY * scale, 0.7 * scale); // 0.7 is base visual scale
 
                 // 2. Position (Wander inside blob)
                 const seed = i * 99.0;
@@ -303,4 +309,15 @@ export class OrganismVisuals {
     public setColor(color: THREE.Color) {
         this.material.uniforms.uColor.value.copy(color);
     }
+
+    /**
+     * Return all eyes to the eye pool, ready to draw another organism
+     */
+    public release() {
+        for (const state of this.eyes.values()) {
+            this.returnEye(state.mesh);
+        }
+        this.eyes.clear();
+        this.material.uniforms.uBlobCount.value = 0;
+    }
 }
@@ -0,0 +1,155 @@
+import { CONFIG } from '../constants';
+import registry from '../effects/particles.json';
+import { isArrayOf, isInteger, isNumber, isRecord } from '../utils/Guards';
+
+export const PARTICLE_EFFECTS_VERSION = 1;
+
+/**
+ * Direction each particle leaves in, around the vertical axis:
+ *   ring   - evenly around a circle, each nudged by up to ±jitter/2 radians
+ *   spiral - `turns` times around over the emission, plus `twist` radians per particle
+ *   random - any direction
+ */
+export type EmitterShape = 'ring' | 'spiral' | 'random';
+
+export interface Emitter {
+    shape: EmitterShape;
+    radius: number; // Distance from the spawn point particles start at
+    jitter: number; // ring
+    turns: number;  // spiral
+    twist: number;  // spiral
+}
+
+/**
+ * Per-particle value: 'random' picks anywhere in min..max, 'ramp' goes
+ * from min (first particle emitted) to max (last). In JSON a plain number
+ * is a constant and [min, max] is random.
+ */
+export interface ParticleRange {
+    min: number;
+    max: number;
+    curve: 'random' | 'ramp';
+}
+
+export interface ParticleEffect {
+    emitter: Emitter;
+    count: number;
+    speed: ParticleRange;    // Horizontal, units/s
+    upSpeed: ParticleRange;  // Vertical, units/s
+    hue: ParticleRange;      // 0..1, wraps
+    lifetime: ParticleRange; // Seconds
+    size: ParticleRange;
+    gravity: number;         // Vertical acceleration, units/s²
+    trailLength: number;     // Points per particle, head included
+}
+
+const EMITTER_SHAPES: EmitterShape[] = ['ring', 'spiral', 'random'];
+
+function validateRange(raw: unknown, what: string): ParticleRange {
+    let range: ParticleRange | null = null;
+    if (isNumber(raw)) {
+        range = { min: raw, max: raw, curve: 'random' };
+    } else if (isArrayOf(raw, isNumber) && raw.length === 2) {
+        range = { min: raw[0], max: raw[1], curve: 'random' };
+    } else if (isRecord(raw) && isNumber(raw.min) && isNumber(raw.max) && (raw.curve === 'random' || raw.curve === 'ramp')) {
+        range = { min: raw.min, max: raw.max, curve: raw.curve };
+    }
+    if (!range || range.min > range.max) {
+        throw new Error(`${what} must be a number, [min, max] or { min, max, curve: 'random' | 'ramp' }`);
+    }
+    return range;
+}
+
+/**
+ * Optional emitter parameter: its default when left out
+ */
+function validateEmitterParam(emitter: Record<string, unknown>, key: string, fallback: number, what: string): number {
+    const value = emitter[key];
+    if (value === undefined) return fallback;
+    if (!isNumber(value)) {
+        throw new Error(`${what}: emitter ${key} must be a number`);
+    }
+    return value;
+}
+
+/**
+ * Check one parsed effect definition and return it with defaults filled in
+ */
+export function validateParticleEffect(name: string, raw: unknown): ParticleEffect {
+    const what = `Particle effect ${name}`;
+    if (!isRecord(raw)) {
+        throw new Error(`${what} must be an object`);
+    }
+
+    const emitter = raw.emitter;
+    const isShape = (v: unknown): v is EmitterShape => EMITTER_SHAPES.some(shape => shape === v);
+    if (!isRecord(emitter) || !isShape(emitter.shape)) {
+        throw new Error(`${what}: emitter shape must be one of ${EMITTER_SHAPES.join(', ')}`);
+    }
+    const { count, gravity, trailLength } = raw;
+    if (!isInteger(count) || count < 1) {
+        throw new Error(`${what}: count must be at least 1`);
+    }
+    if (!isNumber(gravity)) {
+        throw new Error(`${what}: gravity must be a number`);
+    }
+    const maxTrail = CONFIG.PARTICLES.MAX_TRAIL_LENGTH;
+    if (!isInteger(trailLength) || trailLength < 1 || trailLength > maxTrail) {
+        throw new Error(`${what}: trailLength must be 1..${maxTrail}`);
+    }
+
+    const lifetime = validateRange(raw.lifetime, `${what}: lifetime`);
+    if (lifetime.min <= 0) {
+        throw new Error(`${what}: lifetime must be positive`);
+    }
+
+    return {
+        emitter: {
+            shape: emitter.shape,
+            radius: validateEmitterParam(emitter, 'radius', 0, what),
+            jitter: validateEmitterParam(emitter, 'jitter', 0, what),
+            turns: validateEmitterParam(emitter, 'turns', 1, what),
+            twist: validateEmitterParam(emitter, 'twist', 0, what)
+        },
+        count,
+        speed: validateRange(raw.speed, `${what}: speed`),
+        upSpeed: validateRange(raw.upSpeed, `${what}: upSpeed`),
+        hue: validateRange(raw.hue, `${what}: hue`),
+        lifetime,
+        size: validateRange(raw.size, `${what}: size`),
+        gravity,
+        trailLength
+    };
+}
+
+/**
+ * Check a parsed registry ({ version, effects: { name: definition } }) and return the effects by name
+ */
+export function validateParticleEffects(raw: unknown): Map<string, ParticleEffect> {
+    const version = isRecord(raw) ? raw.version : undefined;
+    if (!isRecord(raw) || version !== PARTICLE_EFFECTS_VERSION) {
+        throw new Error(`Unsupported particle effects version: ${version}`);
+    }
+    if (!isRecord(raw.effects)) {
+        throw new Error('Particle effects registry has no effects table');
+    }
+    return new Map(Object.entries(raw.effects).map(([name, effect]) => [name, validateParticleEffect(name, effect)]));
+}
+
+/**
+ * The shipped effects (src/effects/particles.json). Game asks for the most
+ * specific name first (e.g. fruit-ghost, then power-up, then fruit), so a
+ * new variant only needs an entry there.
+ */
+export const PARTICLE_EFFECTS = validateParticleEffects(registry);
+
+/**
+ * The first of the names that has an effect
+ */
+export function findParticleEffect(...names: string[]): ParticleEffect | null {
+    for (const name of names) {
+        const effect = PARTICLE_EFFECTS.get(name);
+        if (effect) return effect;
+    }
+    return null;
+}
@@ -1,35 +1,78 @@
 import * as THREE from 'three';
 import { CONFIG } from '../constants';
+import { RNG } from '../utils/Random';
+import type { ParticleEffect, ParticleRange } from './ParticleEffects';
 
+const rng = RNG.stream('particles');
+
+/**
+ * Particles are simulated here, not on the CPU: each instance holds its spawn
+ * state and the shader integrates it to the current time. Every instance is
+ * drawn as its trail length in points, each replaying the path a little
+ * further back. What gets spawned is defined in src/effects/particles.json.
+ */
 const VERTEX_SHADER = `
-attribute float aLife;
-attribute float aMaxLife;
-attribute float aHue;
-attribute float aSize;
+uniform float uTime;
+uniform float uDrag;
+uniform float uGround;
+uniform float uBounce;
+uniform float uTrailSpacing;
+
+// Per vertex: position along the trail, 0 = head
 attribute float aTrailIndex;
 
+// Per particle
+attribute vec3 aOrigin;
+attribute vec3 aVelocity;
+attribute vec4 aParams; // spawn time, max life, hue, size
+attribute vec2 aMotion; // gravity, trail length
+
 varying float vLife;
 varying float vMaxLife;
 varying float vHue;
-varying float vTrailIndex;
+varying float vTrail; // 0 at the head, towards 1 at the tail
+
+// Position t seconds after spawn. Closed form of dv/dt = g - drag * v,
+// so velocity decays towards the terminal velocity g / drag.
+vec3 integrate(float t) {
+    vec3 terminal = vec3(0.0, aMotion.x / uDrag, 0.0);
+    float decay = (1.0 - exp(-uDrag * t)) / uDrag;
+    vec3 p = aOrigin + (aVelocity - terminal) * decay + terminal * t;
+
+    // Damped bounce off the ground
+    if (p.y < uGround) p.y = uGround + (uGround - p.y) * uBounce;
+    return p;
+}
 
 void main() {
-    vLife = aLife;
-    vMaxLife = aMaxLife;
-    vHue = aHue;
-    vTrailIndex = aTrailIndex;
-    
-    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    float life = uTime - aParams.x;
+    float maxLife = aParams.y;
+
+    vLife = life;
+    vMaxLife = maxLife;
+    vHue = aParams.z;
+    vTrail = aTrailIndex / aMotion.y;
+
+    // Dead, never used or past the end of this trail: drop the point outside the clip volume
+    if (life < 0.0 || life >= maxLife || aTrailIndex >= aMotion.y) {
+        gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+        gl_PointSize = 0.0;
+        return;
+    }
+
+    // Trail points lag behind the head, starting bunched up at the origin
+    vec3 pos = integrate(max(life - aTrailIndex * uTrailSpacing, 0.0));
+    vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
     
-    float lifeRatio = aLife / aMaxLife;
+    float lifeRatio = life / maxLife;
     
     // Trail particles get smaller
-    float trailFade = 1.0 - vTrailIndex * 0.15;
+    float trailFade = 1.0 - vTrail * 0.9;
     
     // Size animation: burst big, then shrink
     float sizeAnim = mix(1.5, 0.3, lifeRatio);
     
-    gl_PointSize = aSize * sizeAnim * trailFade * (300.0 / -mvPosition.z);
+    gl_PointSize = aParams.w * sizeAnim * trailFade * (300.0 / -mvPosition.z);
     gl_Position = projectionMatrix * mvPosition;
 }
 `;
@@ -38,7 +81,7 @@ const FRAGMENT_SHADER = `
 varying float vLife;
 varying float vMaxLife;
 varying float vHue;
-varying float vTrailIndex;
+varying float vTrail;
 
 vec3 hsv2rgb(vec3 c) {
     vec4 K = vec4(1.0, 2.0/3.0, 1.0/3.0, 3.0);
@@ -72,7 +115,7 @@ void main() {
     vec3 finalColor = mix(color, coreColor, core * 0.6);
     
     // Trail particles fade
-    float trailAlpha = 1.0 - vTrailIndex * 0.13;
+    float trailAlpha = 1.0 - vTrail * 0.78;
     
     // Fade over lifetime
     float lifeFade = 1.0 - pow(lifeRatio, 0.7);
@@ -88,97 +131,68 @@ void main() {
 }
 `;
 
-const TRAIL_LENGTH = 6;
-
-interface TrailPoint {
-    x: number;
-    y: number;
-    z: number;
-}
-
-interface ParticleData {
-    position: THREE.Vector3;
-    velocity: THREE.Vector3;
-    life: number;
-    maxLife: number;
-    hue: number;
-    size: number;
-    active: boolean;
-    trail: TrailPoint[];
-    initialSpeed: number;
-}
 
 export class ParticleSystem {
     public group: THREE.Group;
-    private particles: ParticleData[] = [];
-    private geometry: THREE.BufferGeometry;
+    private geometry: THREE.InstancedBufferGeometry;
     private material: THREE.ShaderMaterial;
     private points: THREE.Points;
 
     private maxParticles: number;
-    private totalPoints: number;
+    private time = 0; // Particle clock; stands still while dt is 0
+
+    // Per-particle spawn state, read by the vertex shader
+    private origins: THREE.InstancedBufferAttribute;
+    private velocities: THREE.InstancedBufferAttribute;
+    private params: THREE.InstancedBufferAttribute; // spawn time, max life, hue, size
+    private motions: THREE.InstancedBufferAttribute; // gravity, trail length
 
-    // Buffers
-    private positions: Float32Array;
-    private lifes: Float32Array;
-    private maxLifes: Float32Array;
-    private hues: Float32Array;
-    private sizes: Float32Array;
-    private trailIndices: Float32Array;
+    // Slot allocation
+    private free: number[] = [];  // Unused slots, next one at the end
+    private live: number[] = [];  // Slots in use, in no particular order
+    private deathTimes: Float64Array;
+    private highWater = 0;        // Slots ever used; only these are drawn
 
     constructor() {
         this.group = new THREE.Group();
         this.maxParticles = CONFIG.PARTICLES.MAX_COUNT;
-        this.totalPoints = this.maxParticles * TRAIL_LENGTH;
-
-        // Initialize buffers (particles * trail points)
-        this.positions = new Float32Array(this.totalPoints * 3);
-        this.lifes = new Float32Array(this.totalPoints);
-        this.maxLifes = new Float32Array(this.totalPoints);
-        this.hues = new Float32Array(this.totalPoints);
-        this.sizes = new Float32Array(this.totalPoints);
-        this.trailIndices = new Float32Array(this.totalPoints);
-
-        // Initialize particle data
-        for (let i = 0; i < this.maxParticles; i++) {
-            const trail: TrailPoint[] = [];
-            for (let t = 0; t < TRAIL_LENGTH; t++) {
-                trail.push({ x: 0, y: -100, z: 0 });
-            }
-
-            this.particles.push({
-                position: new THREE.Vector3(),
-                velocity: new THREE.Vector3(),
-                life: 0,
-                maxLife: 1,
-                hue: 0,
-                size: 1,
-                active: false,
-                trail,
-                initialSpeed: 0
-            });
-
-            // Initialize all trail points offscreen
-            for (let t = 0; t < TRAIL_LENGTH; t++) {
-                const idx = i * TRAIL_LENGTH + t;
-                this.positions[idx * 3 + 1] = -100;
-                this.trailIndices[idx] = t;
-            }
-        }
-
-        // Create geometry
-        this.geometry = new THREE.BufferGeometry();
-        this.geometry.setAttribute('position', new THREE.BufferAttribute(this.positions, 3));
-        this.geometry.setAttribute('aLife', new THREE.BufferAttribute(this.lifes, 1));
-        this.geometry.setAttribute('aMaxLife', new THREE.BufferAttribute(this.maxLifes, 1));
-        this.geometry.setAttribute('aHue', new THREE.BufferAttribute(this.hues, 1));
-        this.geometry.setAttribute('aSize', new THREE.BufferAttribute(this.sizes, 1));
-        this.geometry.setAttribute('aTrailIndex', new THREE.BufferAttribute(this.trailIndices, 1));
+        this.deathTimes = new Float64Array(this.maxParticles);
+        for (let i = this.maxParticles - 1; i >= 0; i--) this.free.push(i);
+
+        // One point per trail position, instanced per particle
+        const maxTrail = CONFIG.PARTICLES.MAX_TRAIL_LENGTH;
+        this.geometry = new THREE.InstancedBufferGeometry();
+        const trailIndices = new Float32Array(maxTrail).map((_, t) => t);
+        // Unused by the shader, but three.js takes the vertex count from it
+        this.geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(maxTrail * 3), 3));
+        this.geometry.setAttribute('aTrailIndex', new THREE.BufferAttribute(trailIndices, 1));
+
+        const instanced = (itemSize: number) => {
+            const attribute = new THREE.InstancedBufferAttribute(new Float32Array(this.maxParticles * itemSize), itemSize);
+            attribute.setUsage(THREE.DynamicDrawUsage);
+            return attribute;
+        };
+        this.origins = instanced(3);
+        this.velocities = instanced(3);
+        this.params = instanced(4);
+        this.motions = instanced(2);
+        this.geometry.setAttribute('aOrigin', this.origins);
+        this.geometry.setAttribute('aVelocity', this.velocities);
+        this.geometry.setAttribute('aParams', this.params);
+        this.geometry.setAttribute('aMotion', this.motions);
+        this.geometry.instanceCount = 0;
 
         // Create material
         this.material = new THREE.ShaderMaterial({
             vertexShader: VERTEX_SHADER,
             fragmentShader: FRAGMENT_SHADER,
+            uniforms: {
+                uTime: { value: 0 },
+                uDrag: { value: CONFIG.PARTICLES.DRAG },
+                uGround: { value: CONFIG.PARTICLES.GROUND_HEIGHT },
+                uBounce: { value: CONFIG.PARTICLES.BOUNCE },
+                uTrailSpacing: { value: CONFIG.PARTICLES.TRAIL_SPACING }
+            },
             transparent: true,
             depthWrite: false,
             blending: THREE.NormalBlending
@@ -191,190 +205,88 @@ export class ParticleSystem {
     }
 
     /**
-     * Spawn an explosive burst of particles with trails
+     * Spawn an effect at (x, z). hue (0..1) recentres the effect's hue range
+     * on that colour, e.g. the organism that was eaten.
      */
-    public spawnBurst(x: number, z: number, count: number = CONFIG.PARTICLES.BURST_COUNT) {
-        let spawned = 0;
-
-        for (let i = 0; i < this.maxParticles && spawned < count; i++) {
-            const p = this.particles[i];
-            if (p.active) continue;
-
-            // Activate particle
-            p.active = true;
-            p.position.set(x, 0.5, z);
-
-            // Initialize trail at spawn point
-            for (let t = 0; t < TRAIL_LENGTH; t++) {
-                p.trail[t].x = x;
-                p.trail[t].y = 0.5;
-                p.trail[t].z = z;
+    public spawn(effect: ParticleEffect, x: number, z: number, hue: number | null = null) {
+        const { emitter, count } = effect;
+        const hueShift = hue === null ? 0 : hue - (effect.hue.min + effect.hue.max) / 2;
+        // Slots written by this call; they come off the free list, so possibly scattered
+        let firstSlot = Infinity;
+        let lastSlot = -1;
+
+        for (let i = 0; i < count; i++) {
+            const progress = i / count;
+            const sample = (range: ParticleRange) =>
+                range.min + (range.curve === 'ramp' ? progress : rng.next()) * (range.max - range.min);
+
+            let angle: number;
+            switch (emitter.shape) {
+                case 'ring':
+                    angle = progress * Math.PI * 2 + (rng.next() - 0.5) * emitter.jitter;
+                    break;
+                case 'spiral':
+                    angle = progress * Math.PI * 2 * emitter.turns + i * emitter.twist;
+                    break;
+                case 'random':
+                    angle = rng.next() * Math.PI * 2;
+                    break;
             }
 
-            // Explosive burst - very fast initial velocity
-            const angle = (spawned / count) * Math.PI * 2 + Math.random() * 0.3;
-            const speedVariation = Math.random();
-            const speed = CONFIG.PARTICLES.SPEED.MIN + speedVariation * (CONFIG.PARTICLES.SPEED.MAX - CONFIG.PARTICLES.SPEED.MIN);
-            const upSpeed = CONFIG.PARTICLES.UP_SPEED.MIN + Math.random() * (CONFIG.PARTICLES.UP_SPEED.MAX - CONFIG.PARTICLES.UP_SPEED.MIN);
-
-            // Add some random spread
-            const spreadAngle = (Math.random() - 0.5) * 0.5;
-
-            p.velocity.set(
-                Math.cos(angle + spreadAngle) * speed * 1.5, // Extra burst power
-                upSpeed * 1.3,
-                Math.sin(angle + spreadAngle) * speed * 1.5
-            );
-
-            p.initialSpeed = p.velocity.length();
-            p.life = 0;
-            p.maxLife = CONFIG.PARTICLES.LIFE.MIN + Math.random() * (CONFIG.PARTICLES.LIFE.MAX - CONFIG.PARTICLES.LIFE.MIN);
-            p.hue = spawned / count;
-            p.size = CONFIG.PARTICLES.SIZE.MIN + Math.random() * (CONFIG.PARTICLES.SIZE.MAX - CONFIG.PARTICLES.SIZE.MIN);
+            const dirX = Math.cos(angle);
+            const dirZ = Math.sin(angle);
+            const speed = sample(effect.speed);
+            const slot = this.allocate(sample(effect.lifetime));
+            if (slot === null) break;
+            firstSlot = Math.min(firstSlot, slot);
+            lastSlot = Math.max(lastSlot, slot);
+
+            this.origins.setXYZ(slot, x + dirX * emitter.radius, 0.5, z + dirZ * emitter.radius);
+            this.velocities.setXYZ(slot, dirX * speed, sample(effect.upSpeed), dirZ * speed);
+            this.params.setXYZW(slot, this.time, this.deathTimes[slot] - this.time, sample(effect.hue) + hueShift, sample(effect.size));
+            this.motions.setXY(slot, effect.gravity, effect.trailLength);
+        }
+        if (lastSlot < 0) return;
 
-            spawned++;
+        // One upload per attribute covering every written slot
+        for (const attribute of [this.origins, this.velocities, this.params, this.motions]) {
+            attribute.addUpdateRange(firstSlot * attribute.itemSize, (lastSlot - firstSlot + 1) * attribute.itemSize);
+            attribute.needsUpdate = true;
         }
     }
 
     /**
-     * Spawn button-specific particle effect
+     * Take a free slot for a particle living maxLife seconds from now.
+     * Returns null when every slot is taken.
      */
-    public spawnButtonEffect(x: number, z: number, button: 'X' | 'Y' | 'A' | 'B') {
-        const config = CONFIG.BUTTON_EFFECTS[button];
-        let spawned = 0;
-
-        for (let i = 0; i < this.maxParticles && spawned < config.COUNT; i++) {
-            const p = this.particles[i];
-            if (p.active) continue;
-
-            p.active = true;
-            p.position.set(x, 0.5, z);
-
-            for (let t = 0; t < TRAIL_LENGTH; t++) {
-                p.trail[t].x = x;
-                p.trail[t].y = 0.5;
-                p.trail[t].z = z;
-            }
-
-            // Different patterns per button
-            let angle: number, speed: number, upSpeed: number;
-
-            switch (button) {
-                case 'X': // Spiral burst
-                    angle = (spawned / config.COUNT) * Math.PI * 4 + spawned * 0.3;
-                    speed = config.SPEED * (0.5 + spawned / config.COUNT);
-                    upSpeed = 8 + Math.random() * 8;
-                    break;
-                case 'Y': // Ring burst (horizontal)
-                    angle = (spawned / config.COUNT) * Math.PI * 2;
-                    speed = config.SPEED + Math.random() * 5;
-                    upSpeed = 2 + Math.random() * 3;
-                    break;
-                case 'A': // Fountain (upward)
-                    angle = (spawned / config.COUNT) * Math.PI * 2 + Math.random() * 0.5;
-                    speed = config.SPEED * 0.5 + Math.random() * 5;
-                    upSpeed = 15 + Math.random() * 10;
-                    break;
-                case 'B': // Explosion (all directions)
-                default:
-                    angle = Math.random() * Math.PI * 2;
-                    speed = config.SPEED + Math.random() * 10;
-                    upSpeed = -5 + Math.random() * 20;
-                    break;
-            }
-
-            p.velocity.set(
-                Math.cos(angle) * speed,
-                upSpeed,
-                Math.sin(angle) * speed
-            );
-
-            p.initialSpeed = p.velocity.length();
-            p.life = 0;
-            p.maxLife = 0.4 + Math.random() * 0.4;
-            p.hue = config.HUE + (Math.random() - 0.5) * 0.1; // Slight hue variation
-            p.size = config.SIZE + Math.random() * 10;
-
-            spawned++;
-        }
+    private allocate(maxLife: number): number | null {
+        const slot = this.free.pop();
+        if (slot === undefined) return null;
+
+        this.live.push(slot);
+        this.deathTimes[slot] = this.time + maxLife;
+        this.highWater = Math.max(this.highWater, slot + 1);
+        this.geometry.instanceCount = this.highWater;
+        return slot;
     }
 
     /**
-     * Update particle physics with trails
+     * Advance the particle clock and recycle expired slots.
+     * Motion itself is computed in the vertex shader.
      */
     public update(dt: number) {
-        const gravity = CONFIG.PARTICLES.GRAVITY;
-
-        for (let i = 0; i < this.maxParticles; i++) {
-            const p = this.particles[i];
-
-            if (!p.active) {
-                // Keep all trail points offscreen
-                for (let t = 0; t < TRAIL_LENGTH; t++) {
-                    const idx = i * TRAIL_LENGTH + t;
-                    this.positions[idx * 3 + 1] = -100;
-                }
-                continue;
-            }
-
-            // Update trail - shift positions back
-            for (let t = TRAIL_LENGTH - 1; t > 0; t--) {
-                p.trail[t].x = p.trail[t - 1].x;
-                p.trail[t].y = p.trail[t - 1].y;
-                p.trail[t].z = p.trail[t - 1].z;
-            }
-            p.trail[0].x = p.position.x;
-            p.trail[0].y = p.position.y;
-            p.trail[0].z = p.position.z;
-
-            // Physics with air resistance (slows down fast)
-            const lifeRatio = p.life / p.maxLife;
-            const airResistance = 0.92 - lifeRatio * 0.1; // More drag as it ages
-
-            p.velocity.y += gravity * dt;
-            p.velocity.multiplyScalar(Math.pow(airResistance, dt * 60)); // Frame-rate independent drag
-            p.position.add(p.velocity.clone().multiplyScalar(dt));
-
-            // Ground collision with bounce
-            if (p.position.y < 0.15) {
-                p.position.y = 0.15;
-                p.velocity.y *= -0.3;
-                p.velocity.x *= 0.6;
-                p.velocity.z *= 0.6;
-            }
-
-            // Update life
-            p.life += dt;
-
-            // Update all trail point buffers
-            for (let t = 0; t < TRAIL_LENGTH; t++) {
-                const idx = i * TRAIL_LENGTH + t;
+        this.time += dt;
+        this.material.uniforms.uTime.value = this.time;
 
-                this.positions[idx * 3] = p.trail[t].x;
-                this.positions[idx * 3 + 1] = p.trail[t].y;
-                this.positions[idx * 3 + 2] = p.trail[t].z;
-                this.lifes[idx] = p.life;
-                this.maxLifes[idx] = p.maxLife;
-                this.hues[idx] = p.hue;
-                this.sizes[idx] = p.size;
-            }
+        for (let i = this.live.length - 1; i >= 0; i--) {
+            const slot = this.live[i];
+            if (this.time < this.deathTimes[slot]) continue;
 
-            // Deactivate dead particles
-            if (p.life >= p.maxLife) {
-                p.active = false;
-                for (let t = 0; t < TRAIL_LENGTH; t++) {
-                    const idx = i * TRAIL_LENGTH + t;
-                    this.positions[idx * 3 + 1] = -100;
-                }
-            }
+            // Swap-remove, then hand the slot back
+            this.live[i] = this.live[this.live.length - 1];
+            this.live.pop();
+            this.free.push(slot);
         }
-
-        // Flag buffers for update
-        this.geometry.attributes.position.needsUpdate = true;
-        (this.geometry.attributes.aLife as THREE.BufferAttribute).needsUpdate = true;
-        (this.geometry.attributes.aMaxLife as THREE.BufferAttribute).needsUpdate = true;
-        (this.geometry.attributes.aHue as THREE.BufferAttribute).needsUpdate = true;
-        (this.geometry.attributes.aSize as THREE.BufferAttribute).needsUpdate = true;
     }
 
     public dispose() {
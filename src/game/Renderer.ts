@@ -1,26 +1,48 @@
 import * as THREE from 'three';
 import { CONFIG } from '../constants';
 
+export interface HudScore {
+    score: number;
+    multiplier: number;
+    color: number;
+    powerUps: { name: string, remaining: number }[];
+}
+
 export class Renderer {
     public scene: THREE.Scene;
     public camera: THREE.OrthographicCamera;
     public renderer: THREE.WebGLRenderer;
     private container: HTMLElement;
+    private hudElement: HTMLDivElement;
+    private statusElement: HTMLDivElement;
+    private scoreElement: HTMLDivElement;
     private fpsElement: HTMLDivElement;
 
     constructor(containerId: string) {
         this.container = document.getElementById(containerId) as HTMLElement;
 
-        // FPS Counter
+        // HUD (top right): Score + FPS Counter
+        this.hudElement = document.createElement('div');
+        this.hudElement.style.position = 'absolute';
+        this.hudElement.style.top = '10px';
+        this.hudElement.style.right = '10px';
+        this.hudElement.style.display = 'flex';
+        this.hudElement.style.gap = '20px';
+        this.hudElement.style.color = '#00ff00';
+        this.hudElement.style.fontFamily = 'monospace';
+        this.hudElement.style.fontWeight = 'bold';
+        this.hudElement.style.pointerEvents = 'none';
+        this.container.appendChild(this.hudElement);
+
+        this.statusElement = document.createElement('div');
+        this.statusElement.style.color = '#ff4444';
+        this.hudElement.appendChild(this.statusElement);
+
+        this.scoreElement = document.createElement('div');
+        this.hudElement.appendChild(this.scoreElement);
+
         this.fpsElement = document.createElement('div');
-        this.fpsElement.style.position = 'absolute';
-        this.fpsElement.style.top = '10px';
-        this.fpsElement.style.right = '10px';
-        this.fpsElement.style.color = '#00ff00';
-        this.fpsElement.style.fontFamily = 'monospace';
-        this.fpsElement.style.fontWeight = 'bold';
-        this.fpsElement.style.pointerEvents = 'none';
-        this.container.appendChild(this.fpsElement);
+        this.hudElement.appendChild(this.fpsElement);
 
         this.scene = new THREE.Scene();
         this.scene.background = new THREE.Color(CONFIG.COLORS.BACKGROUND);
@@ -82,7 +104,10 @@ export class Renderer {
         window.dispatchEvent(new CustomEvent('game-resize', { detail: { aspect: width / height } }));
     }
 
-    public fitCameraToGrid(gridHeight: number) {
+    /**
+     * gridWidth: also fit this width (fixed-size levels); 0 fits the height only
+     */
+    public fitCameraToGrid(gridHeight: number, gridWidth: number = 0) {
         if (!this.camera) return;
 
         const aspect = window.innerWidth / window.innerHeight;
@@ -90,7 +115,7 @@ export class Renderer {
         // We want to fit 'gridHeight' (physical size) vertically + margin
         // In Ortho cam, 'top' - 'bottom' = visible vertical units.
 
-        const viewSize = gridHeight; // 100% fit
+        const viewSize = Math.max(gridHeight, gridWidth / aspect); // 100% fit
 
         this.camera.left = -viewSize * aspect / 2;
         this.camera.right = viewSize * aspect / 2;
@@ -108,6 +133,45 @@ export class Renderer {
         return window.innerWidth / window.innerHeight;
     }
 
+    /**
+     * One entry per player. A single player shows SCORE, several show P1..P4 in their colours.
+     * Active power-ups follow each score with their time left.
+     */
+    public updateScores(scores: HudScore[]) {
+        const text = (s: HudScore) =>
+            `${s.score}${s.multiplier > 1 ? `  x${s.multiplier}` : ''}` +
+            s.powerUps.map(p => `  ${p.name} ${p.remaining.toFixed(1)}s`).join('');
+
+        if (scores.length === 1) {
+            this.scoreElement.innerText = `SCORE: ${text(scores[0])}`;
+            return;
+        }
+
+        // One span per player, created on first use
+        while (this.scoreElement.children.length !== scores.length) {
+            if (this.scoreElement.children.length > scores.length) {
+                this.scoreElement.lastElementChild!.remove();
+            } else {
+                if (this.scoreElement.children.length === 0) this.scoreElement.innerText = '';
+                const span = document.createElement('span');
+                span.style.marginLeft = '16px';
+                this.scoreElement.appendChild(span);
+            }
+        }
+        scores.forEach((s, i) => {
+            const span = this.scoreElement.children[i] as HTMLSpanElement;
+            span.style.color = '#' + s.color.toString(16).padStart(6, '0');
+            span.innerText = `P${i + 1}: ${text(s)}`;
+        });
+    }
+
+    /**
+     * Short mode label shown left of the score (e.g. REPLAY); empty hides it
+     */
+    public setStatus(text: string) {
+        this.statusElement.innerText = text;
+    }
+
     public updateFPS(fps: number) {
         if (this.fpsElement) {
             this.fpsElement.innerText = `FPS: ${Math.round(fps)}`;
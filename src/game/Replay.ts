@@ -0,0 +1,231 @@
+import { CONFIG } from '../constants';
+import type { TickInput } from './Simulation';
+import type { ButtonEffect } from './Input';
+import { validateLevel } from './Level';
+import type { LevelData } from './Level';
+import { isArrayOf, isInteger, isNumber, isRecord } from '../utils/Guards';
+
+const REPLAY_VERSION = 1;
+
+/**
+ * Run of identical ticks: [count, x, y] or [count, x, y, effect].
+ * A button effect only lasts one tick, so it always gets a run of its own.
+ */
+type InputRun = [number, number, number] | [number, number, number, NonNullable<ButtonEffect>];
+
+/**
+ * Replay file contents. Everything needed to re-simulate a run exactly:
+ * the seed, the rules, the world size (or level) and the per-tick input of
+ * every player.
+ */
+export interface ReplayData {
+    version: number;
+    seed: number;
+    classic: boolean;
+    players: number;
+    // Campaign level id; the whole level for one played from the editor
+    // (it may be edited from a campaign level and keep its id); null for the sandbox
+    level: string | LevelData | null;
+    aspect: number;             // World aspect ratio at the start of the run
+    tickRate: number;
+    resizes: [number, number][]; // [tick, aspect]: world resized before that tick
+    input: InputRun[][];        // One run-length stream per player
+}
+
+const EFFECTS: NonNullable<ButtonEffect>[] = ['X', 'Y', 'A', 'B'];
+
+/**
+ * Records the input fed to Simulation.step, one entry per player per tick
+ */
+export class ReplayRecorder {
+    private data: ReplayData;
+    private ticks: number = 0;
+
+    constructor(seed: number, classic: boolean, players: number, aspect: number, level: string | LevelData | null = null) {
+        this.data = {
+            version: REPLAY_VERSION,
+            seed,
+            classic,
+            players,
+            level,
+            aspect,
+            tickRate: CONFIG.SIMULATION.TICK_RATE,
+            resizes: [],
+            input: Array.from({ length: players }, () => [])
+        };
+    }
+
+    public record(inputs: readonly TickInput[]) {
+        this.data.input.forEach((runs, player) => {
+            const { x, y } = inputs[player].direction;
+            const effect = inputs[player].buttonEffect;
+            const last = runs[runs.length - 1];
+
+            if (!effect && last && last.length === 3 && last[1] === x && last[2] === y) {
+                last[0]++;
+            } else {
+                runs.push(effect ? [1, x, y, effect] : [1, x, y]);
+            }
+        });
+        this.ticks++;
+    }
+
+    /**
+     * Several resizes between two ticks collapse into the last one
+     */
+    public recordResize(aspect: number) {
+        const last = this.data.resizes[this.data.resizes.length - 1];
+        if (last && last[0] === this.ticks) {
+            last[1] = aspect;
+        } else {
+            this.data.resizes.push([this.ticks, aspect]);
+        }
+    }
+
+    public getData(): ReplayData {
+        return this.data;
+    }
+}
+
+/**
+ * Reads one player's run-length stream back tick by tick
+ */
+class InputStream {
+    private runs: InputRun[];
+    private runIndex: number = 0;
+    private runTick: number = 0;
+
+    constructor(runs: InputRun[]) {
+        this.runs = runs;
+    }
+
+    public next(): TickInput | null {
+        const run = this.runs[this.runIndex];
+        if (!run) return null;
+
+        const input: TickInput = {
+            direction: { x: run[1], y: run[2] },
+            buttonEffect: run[3] ?? null
+        };
+
+        this.runTick++;
+        if (this.runTick >= run[0]) {
+            this.runIndex++;
+            this.runTick = 0;
+        }
+        return input;
+    }
+}
+
+/**
+ * Plays a recording back tick by tick in place of the live Input
+ */
+export class ReplayPlayer {
+    public readonly data: ReplayData;
+    private streams: InputStream[];
+    private tick: number = 0;
+    private resizeIndex: number = 0;
+
+    constructor(data: ReplayData) {
+        this.data = data;
+        this.streams = data.input.map(runs => new InputStream(runs));
+    }
+
+    /**
+     * World size to apply before the upcoming tick, if any resize is due
+     * (the last one wins when several share a tick)
+     */
+    public takeResize(): number | null {
+        let aspect: number | null = null;
+        const resizes = this.data.resizes;
+        while (this.resizeIndex < resizes.length && resizes[this.resizeIndex][0] <= this.tick) {
+            aspect = resizes[this.resizeIndex][1];
+            this.resizeIndex++;
+        }
+        return aspect;
+    }
+
+    /**
+     * Input of every player for the next tick, or null once the recording is exhausted
+     * (all streams cover the same number of ticks)
+     */
+    public next(): TickInput[] | null {
+        const inputs: TickInput[] = [];
+        for (const stream of this.streams) {
+            const input = stream.next();
+            if (!input) return null;
+            inputs.push(input);
+        }
+        this.tick++;
+        return inputs;
+    }
+}
+
+export function serializeReplay(data: ReplayData): string {
+    return JSON.stringify(data);
+}
+
+function isInputRun(run: unknown): run is InputRun {
+    const isEffect = (v: unknown): v is NonNullable<ButtonEffect> => EFFECTS.some(effect => effect === v);
+    return Array.isArray(run) &&
+        (run.length === 3 || (run.length === 4 && isEffect(run[3]))) &&
+        isInteger(run[0]) && run[0] > 0 && isNumber(run[1]) && isNumber(run[2]);
+}
+
+function isResize(resize: unknown): resize is [number, number] {
+    return Array.isArray(resize) && resize.length === 2 &&
+        isInteger(resize[0]) && resize[0] >= 0 && isNumber(resize[1]) && resize[1] > 0;
+}
+
+/**
+ * Check a parsed replay file and return it as ReplayData. Throws on anything that cannot be replayed exactly.
+ */
+export function parseReplay(raw: unknown): ReplayData {
+    const version = isRecord(raw) ? raw.version : undefined;
+    if (!isRecord(raw) || version !== REPLAY_VERSION) {
+        throw new Error(`Unsupported replay version: ${version}`);
+    }
+    if (raw.tickRate !== CONFIG.SIMULATION.TICK_RATE) {
+        throw new Error(`Replay was recorded at ${raw.tickRate} ticks/s, this build runs ${CONFIG.SIMULATION.TICK_RATE}`);
+    }
+    const { seed, classic, aspect } = raw;
+    if (!isNumber(seed) || typeof classic !== 'boolean' || !isNumber(aspect) || aspect <= 0) {
+        throw new Error('Replay is missing seed, mode or world size');
+    }
+
+    const players = raw.players;
+    if (!isInteger(players) || players < 1 || players > CONFIG.MULTIPLAYER.MAX_PLAYERS) {
+        throw new Error(`Replay has an invalid player count: ${players}`);
+    }
+    const isStream = (runs: unknown): runs is InputRun[] => isArrayOf(runs, isInputRun);
+    const input = raw.input;
+    if (!isArrayOf(input, isStream) || input.length !== players) {
+        throw new Error('Replay input stream is malformed');
+    }
+    // Resizes are applied in order, so their ticks may not go backwards
+    const resizes = raw.resizes;
+    if (!isArrayOf(resizes, isResize) || resizes.some((resize, i) => i > 0 && resize[0] < resizes[i - 1][0])) {
+        throw new Error('Replay resize list is malformed');
+    }
+
+    let level: string | LevelData | null;
+    if (raw.level === null || typeof raw.level === 'string') {
+        level = raw.level;
+    } else if (isRecord(raw.level)) {
+        level = validateLevel(raw.level);
+    } else {
+        throw new Error('Replay level must be a level id, a level or null');
+    }
+
+    return {
+        version: REPLAY_VERSION,
+        seed,
+        classic,
+        players,
+        level,
+        aspect,
+        tickRate: CONFIG.SIMULATION.TICK_RATE,
+        resizes,
+        input
+    };
+}
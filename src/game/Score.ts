@@ -0,0 +1,131 @@
+import { CONFIG } from '../constants';
+import type { FruitType } from './FruitVisuals';
+import { isNumber, isRecord } from '../utils/Guards';
+
+export interface HighScoreEntry {
+    initials: string;
+    score: number;
+}
+
+/**
+ * Score Keeping
+ * Points per fruit type and per organism eaten, a combo multiplier for
+ * quick successive eats, and a bonus for eating while organisms are scared.
+ */
+export class Score {
+    private score: number = 0;
+    private multiplier: number = 1;
+    private comboTimer: number = 0; // Time left to keep the combo going
+
+    /**
+     * Register a fruit eaten and return the points awarded
+     */
+    public registerEat(type: FruitType, scaredCount: number): number {
+        const conf = CONFIG.SCORE;
+        const base = conf.FRUIT_POINTS[type] ?? conf.FRUIT_POINTS[0];
+        return this.award(base + scaredCount * conf.SCARED_BONUS);
+    }
+
+    /**
+     * Register an organism eaten (points per blob) and return the points awarded
+     */
+    public registerOrganism(blobs: number): number {
+        return this.award(blobs * CONFIG.SCORE.ORGANISM_POINTS_PER_BLOB);
+    }
+
+    private award(base: number): number {
+        const conf = CONFIG.SCORE;
+
+        // Eating inside the combo window raises the multiplier
+        if (this.comboTimer > 0) {
+            this.multiplier = Math.min(this.multiplier + 1, conf.COMBO.MAX_MULTIPLIER);
+        } else {
+            this.multiplier = 1;
+        }
+        this.comboTimer = conf.COMBO.WINDOW;
+
+        const points = base * this.multiplier;
+        this.score += points;
+        return points;
+    }
+
+    public update(dt: number) {
+        if (this.comboTimer > 0) {
+            this.comboTimer -= dt;
+            if (this.comboTimer <= 0) {
+                this.multiplier = 1;
+            }
+        }
+    }
+
+    public getScore(): number {
+        return this.score;
+    }
+
+    public getMultiplier(): number {
+        return this.multiplier;
+    }
+}
+
+/**
+ * Persistent top-N table in localStorage
+ */
+export class HighScores {
+    private entries: HighScoreEntry[] = [];
+
+    constructor() {
+        this.load();
+    }
+
+    public getEntries(): HighScoreEntry[] {
+        return this.entries;
+    }
+
+    public qualifies(score: number): boolean {
+        if (score <= 0) return false;
+        if (this.entries.length < CONFIG.SCORE.HIGH_SCORE_COUNT) return true;
+        return score > this.entries[this.entries.length - 1].score;
+    }
+
+    /**
+     * Insert a score and return its rank (0-based), or -1 if it did not make the table
+     */
+    public add(initials: string, score: number): number {
+        const entry: HighScoreEntry = {
+            initials: initials.toUpperCase().slice(0, 3) || '???',
+            score
+        };
+
+        this.entries.push(entry);
+        this.entries.sort((a, b) => b.score - a.score);
+        this.entries.length = Math.min(this.entries.length, CONFIG.SCORE.HIGH_SCORE_COUNT);
+        this.save();
+
+        return this.entries.indexOf(entry);
+    }
+
+    private load() {
+        try {
+            const raw = localStorage.getItem(CONFIG.SCORE.STORAGE_KEY);
+            if (!raw) return;
+            const parsed: unknown = JSON.parse(raw);
+            if (Array.isArray(parsed)) {
+                // Sorted and trimmed here too, in case the stored table was edited by hand
+                this.entries = parsed
+                    .filter((e: unknown): e is HighScoreEntry => isRecord(e) && typeof e.initials === 'string' && isNumber(e.score))
+                    .sort((a, b) => b.score - a.score)
+                    .slice(0, CONFIG.SCORE.HIGH_SCORE_COUNT);
+            }
+        } catch (err) {
+            console.warn('[HighScores] Could not load high scores', err);
+        }
+    }
+
+    private save() {
+        try {
+            localStorage.setItem(CONFIG.SCORE.STORAGE_KEY, JSON.stringify(this.entries));
+        } catch (err) {
+            console.warn('[HighScores] Could not save high scores', err);
+        }
+    }
+}
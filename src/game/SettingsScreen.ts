@@ -0,0 +1,305 @@
+import { CONFIG } from '../constants';
+import { ACTIONS, PRESETS } from './Bindings';
+import type { Action, KeyBindings, KeyConflict } from './Bindings';
+import type { Input } from './Input';
+import type { Audio } from './Audio';
+import { AUDIO_BUSES } from './AudioSettings';
+
+interface Capture {
+    action: Action;
+    slot: number;
+    device: 'key' | 'button';
+}
+
+/**
+ * Settings Screen
+ * DOM panel for the volume sliders and mute switch, and for editing key and
+ * gamepad bindings, per player in multiplayer.
+ * Click a slot, then press the key or pad button to bind (Esc cancels,
+ * Backspace clears the slot).
+ */
+export class SettingsScreen {
+    private element: HTMLDivElement;
+    private tableElement: HTMLDivElement;
+    private messageElement: HTMLDivElement;
+    private muteCheckbox: HTMLInputElement;
+    private bindings: KeyBindings;
+    private input: Input;
+    private audio: Audio;
+    private capture: Capture | null = null;
+    private player: number = 0; // Whose bindings are shown
+    private playerTabs: HTMLButtonElement[] = [];
+
+    constructor(containerId: string, bindings: KeyBindings, input: Input, audio: Audio, playerCount: number = 1) {
+        const container = document.getElementById(containerId) as HTMLElement;
+        this.bindings = bindings;
+        this.input = input;
+        this.audio = audio;
+
+        this.element = document.createElement('div');
+        this.element.style.position = 'absolute';
+        this.element.style.inset = '0';
+        this.element.style.display = 'none';
+        this.element.style.flexDirection = 'column';
+        this.element.style.alignItems = 'center';
+        this.element.style.justifyContent = 'center';
+        this.element.style.gap = '12px';
+        this.element.style.background = 'rgba(0, 0, 0, 0.75)';
+        this.element.style.color = '#ffffff';
+        this.element.style.fontFamily = 'monospace';
+
+        const title = document.createElement('div');
+        title.innerText = 'SETTINGS';
+        title.style.fontSize = '32px';
+        title.style.fontWeight = 'bold';
+        this.element.appendChild(title);
+
+        // --- Audio ---
+        const audioRow = document.createElement('div');
+        audioRow.style.display = 'flex';
+        audioRow.style.alignItems = 'center';
+        audioRow.style.gap = '16px';
+        for (const { bus, label } of AUDIO_BUSES) {
+            const field = document.createElement('label');
+            field.style.display = 'flex';
+            field.style.alignItems = 'center';
+            field.style.gap = '6px';
+
+            const value = document.createElement('span');
+            value.style.width = '3em';
+            const slider = document.createElement('input');
+            slider.type = 'range';
+            slider.min = '0';
+            slider.max = '100';
+            slider.step = '5';
+            slider.value = String(Math.round(this.audio.getVolume(bus) * 100));
+            value.innerText = `${slider.value}%`;
+            slider.addEventListener('input', () => {
+                this.audio.setVolume(bus, Number(slider.value) / 100);
+                value.innerText = `${slider.value}%`;
+            });
+
+            field.append(label, slider, value);
+            audioRow.appendChild(field);
+        }
+
+        const muteField = document.createElement('label');
+        this.muteCheckbox = document.createElement('input');
+        this.muteCheckbox.type = 'checkbox';
+        this.muteCheckbox.checked = this.audio.isMuted();
+        this.muteCheckbox.addEventListener('change', () => this.audio.setMuted(this.muteCheckbox.checked));
+        muteField.append(this.muteCheckbox, ' Mute');
+        audioRow.appendChild(muteField);
+        this.element.appendChild(audioRow);
+
+        // --- Bindings ---
+
+        if (playerCount > 1) {
+            const tabRow = document.createElement('div');
+            tabRow.style.display = 'flex';
+            tabRow.style.gap = '8px';
+            for (let p = 0; p < playerCount; p++) {
+                const tab = this.createButton(`P${p + 1}`, () => {
+                    this.player = p;
+                    this.capture = null;
+                    this.setMessage('');
+                    this.refresh();
+                });
+                tab.style.color = '#' + CONFIG.MULTIPLAYER.PLAYER_COLORS[p].toString(16).padStart(6, '0');
+                this.playerTabs.push(tab);
+                tabRow.appendChild(tab);
+            }
+            this.element.appendChild(tabRow);
+        }
+
+        const presetRow = document.createElement('div');
+        presetRow.style.display = 'flex';
+        presetRow.style.gap = '8px';
+        for (const name of Object.keys(PRESETS)) {
+            presetRow.appendChild(this.createButton(name, () => {
+                const skipped = this.bindings.applyPreset(this.player, name);
+                this.setMessage(skipped.length > 0
+                    ? `Preset: ${name} (skipped keys used by other players: ${skipped.join(', ')})`
+                    : `Preset: ${name}`);
+                this.refresh();
+            }));
+        }
+        presetRow.appendChild(this.createButton('Defaults', () => {
+            this.bindings.reset(this.player);
+            this.setMessage('Default bindings restored');
+            this.refresh();
+        }));
+        this.element.appendChild(presetRow);
+
+        this.tableElement = document.createElement('div');
+        this.tableElement.style.display = 'grid';
+        this.tableElement.style.gridTemplateColumns = `auto repeat(${CONFIG.INPUT.SLOTS_PER_ACTION * 2}, 9em)`;
+        this.tableElement.style.gap = '4px 8px';
+        this.tableElement.style.alignItems = 'center';
+        this.element.appendChild(this.tableElement);
+
+        this.messageElement = document.createElement('div');
+        this.messageElement.style.minHeight = '1.2em';
+        this.messageElement.style.color = '#ffcc00';
+        this.element.appendChild(this.messageElement);
+
+        this.element.appendChild(this.createButton('Close (Esc / F2)', () => this.close()));
+
+        container.appendChild(this.element);
+
+        // Capture phase, so a key being bound never reaches the game
+        window.addEventListener('keydown', (e) => this.handleKey(e), true);
+    }
+
+    public open() {
+        this.capture = null;
+        this.setMessage('');
+        this.refresh();
+        this.element.style.display = 'flex';
+    }
+
+    public close() {
+        this.capture = null;
+        this.element.style.display = 'none';
+    }
+
+    public toggle() {
+        if (this.isOpen()) this.close();
+        else this.open();
+    }
+
+    public isOpen(): boolean {
+        return this.element.style.display !== 'none';
+    }
+
+    /**
+     * Poll gamepads while waiting for a button to bind. Call once per tick, before Input.endFrame.
+     */
+    public update() {
+        // Mute can also be toggled with its key or button while the screen is open
+        this.muteCheckbox.checked = this.audio.isMuted();
+
+        if (!this.capture || this.capture.device !== 'button') return;
+
+        const button = this.input.getPressedButton(this.player);
+        if (button === null) return;
+
+        const { action, slot } = this.capture;
+        const conflict = this.bindings.setButton(this.player, action, slot, button);
+        this.finishCapture(conflict && { player: this.player, action: conflict }, this.bindings.describeButton(button));
+    }
+
+    private handleKey(e: KeyboardEvent) {
+        if (!this.isOpen()) return;
+
+        if (!this.capture) {
+            if (e.code === 'Escape') {
+                e.preventDefault();
+                this.close();
+            }
+            return;
+        }
+
+        e.preventDefault();
+        e.stopImmediatePropagation();
+
+        const { action, slot, device } = this.capture;
+        if (e.code === 'Escape') {
+            this.capture = null;
+            this.setMessage('');
+            this.refresh();
+            return;
+        }
+        if (e.code === 'Backspace' || e.code === 'Delete') {
+            if (device === 'key') this.bindings.clearKey(this.player, action, slot);
+            else this.bindings.clearButton(this.player, action, slot);
+            this.capture = null;
+            this.setMessage('');
+            this.refresh();
+            return;
+        }
+        if (device !== 'key') return;
+
+        const conflict = this.bindings.setKey(this.player, action, slot, e.code);
+        this.finishCapture(conflict, this.bindings.describeKey(e.code));
+    }
+
+    private finishCapture(conflict: KeyConflict, name: string) {
+        if (conflict === 'reserved') {
+            this.setMessage(`${name} is reserved by the game`);
+            return; // Keep waiting for another key
+        }
+        if (conflict) {
+            const label = ACTIONS.find(a => a.action === conflict.action)?.label ?? conflict.action;
+            const owner = conflict.player === this.player ? label : `P${conflict.player + 1} ${label}`;
+            this.setMessage(`${name} is already bound to ${owner}`);
+            return;
+        }
+
+        this.capture = null;
+        this.setMessage('');
+        this.refresh();
+    }
+
+    private startCapture(action: Action, slot: number, device: 'key' | 'button') {
+        this.capture = { action, slot, device };
+        this.setMessage(device === 'key'
+            ? 'Press a key (Esc cancels, Backspace clears)'
+            : 'Press a gamepad button (Esc cancels, Backspace clears)');
+        this.refresh();
+    }
+
+    private refresh() {
+        this.playerTabs.forEach((tab, p) => {
+            tab.style.fontWeight = p === this.player ? 'bold' : 'normal';
+        });
+        this.tableElement.innerHTML = '';
+        const slots = CONFIG.INPUT.SLOTS_PER_ACTION;
+
+        const header = ['Action', ...Array(slots).fill('Key'), ...Array(slots).fill('Gamepad')];
+        for (const text of header) {
+            const cell = document.createElement('div');
+            cell.innerText = text;
+            cell.style.color = '#888888';
+            this.tableElement.appendChild(cell);
+        }
+
+        for (const { action, label } of ACTIONS) {
+            const name = document.createElement('div');
+            name.innerText = label;
+            this.tableElement.appendChild(name);
+
+            const keys = this.bindings.getKeys(this.player, action);
+            for (let slot = 0; slot < slots; slot++) {
+                const text = keys[slot] ? this.bindings.describeKey(keys[slot]) : '-';
+                this.tableElement.appendChild(this.createSlot(text, action, slot, 'key'));
+            }
+
+            const buttons = this.bindings.getButtons(this.player, action);
+            for (let slot = 0; slot < slots; slot++) {
+                const text = buttons[slot] !== undefined ? this.bindings.describeButton(buttons[slot]) : '-';
+                this.tableElement.appendChild(this.createSlot(text, action, slot, 'button'));
+            }
+        }
+    }
+
+    private createSlot(text: string, action: Action, slot: number, device: 'key' | 'button'): HTMLButtonElement {
+        const c = this.capture;
+        const waiting = c !== null && c.action === action && c.slot === slot && c.device === device;
+        const button = this.createButton(waiting ? '...' : text, () => this.startCapture(action, slot, device));
+        if (waiting) button.style.background = '#ffcc00';
+        return button;
+    }
+
+    private createButton(text: string, onClick: () => void): HTMLButtonElement {
+        const button = document.createElement('button');
+        button.innerText = text;
+        button.style.fontFamily = 'monospace';
+        button.addEventListener('click', () => onClick());
+        return button;
+    }
+
+    private setMessage(text: string) {
+        this.messageElement.innerText = text;
+    }
+}
@@ -0,0 +1,356 @@
+import * as THREE from 'three';
+import { CONFIG } from '../constants';
+import { World } from './World';
+import type { HeadCollision, EatenOrganism } from './World';
+import { Snake } from './Snake';
+import { Score } from './Score';
+import { Emitter } from '../utils/Emitter';
+import { FruitType } from './FruitVisuals';
+import type { ButtonEffect } from './Input';
+import type { LevelData } from './Level';
+
+/**
+ * Input for one simulation tick (what Input reports for that tick)
+ */
+export interface TickInput {
+    direction: { x: number, y: number };
+    buttonEffect: ButtonEffect;
+}
+
+/**
+ * Power-ups with a duration; shrink (the fourth kind) acts at once
+ */
+export type TimedPowerUp = 'speed' | 'ghost' | 'magnet';
+
+const POWER_UP_FRUIT: Partial<Record<FruitType, TimedPowerUp>> = {
+    [FruitType.SPEED]: 'speed',
+    [FruitType.GHOST]: 'ghost',
+    [FruitType.MAGNET]: 'magnet'
+};
+
+export interface Player {
+    snake: Snake;
+    score: Score;
+    alive: boolean;
+    blocked: boolean; // Steering into something and not moving at all
+    powerUps: Record<TimedPowerUp, number>; // Seconds left, 0 = inactive
+}
+
+export type SimulationEvents = {
+    snakesSpawned: [snakes: readonly Snake[]];
+    fruitEaten: [player: number, type: FruitType, points: number, x: number, z: number];
+    organismEaten: [player: number, points: number, organism: EatenOrganism];
+    buttonEffect: [player: number, effect: NonNullable<ButtonEffect>, x: number, z: number, scared: number];
+    died: [player: number, cause: NonNullable<HeadCollision>];
+    // A snake came to a full stop against an obstacle, organism or other snake
+    blocked: [player: number, x: number, z: number];
+    // Classic mode only. winner: last snake standing in multiplayer, null for one player or a draw
+    runEnded: [winner: number | null];
+    // Level win condition met; time in seconds since the level started
+    levelCompleted: [time: number];
+};
+
+/**
+ * How far the current level has got
+ */
+export interface LevelProgress {
+    time: number;   // Seconds since the level started
+    fruit: number;  // Fruit eaten so far
+}
+
+const IDLE_INPUT: TickInput = { direction: { x: 0, y: 0 }, buttonEffect: null };
+
+/**
+ * Simulation
+ * The game rules on top of World and the snakes: movement and blocking, fruit
+ * collection, scoring, the classic-mode run end and level win conditions.
+ * One to four snakes share the grid, block each other and compete for the
+ * same fruit. DOM-free, so it can be stepped under Node; Game feeds it input
+ * and turns its events into sound, particles and UI.
+ */
+export class Simulation {
+    public readonly events = new Emitter<SimulationEvents>();
+    public readonly world: World;
+    private players: Player[] = [];
+    private playerCount: number;
+    private classicMode: boolean;
+    private gameOver: boolean = false;
+    private level: LevelData | null = null;
+    private levelProgress: LevelProgress = { time: 0, fruit: 0 };
+
+    constructor(aspectRatio: number, classicMode: boolean = false, playerCount: number = 1) {
+        this.world = new World(aspectRatio, playerCount);
+        this.classicMode = classicMode;
+        this.playerCount = playerCount;
+        this.spawnPlayers();
+    }
+
+    /**
+     * One fixed simulation tick (dt is always 1 / TICK_RATE in the game).
+     * inputs: one entry per player, in player order.
+     */
+    public step(inputs: readonly TickInput[], dt: number) {
+        const r = CONFIG.SNAKE.CIRCLE_RADIUS + CONFIG.SNAKE.SAFETY_MARGIN;
+        let someoneDied = false;
+
+        this.players.forEach((player, index) => {
+            const input = inputs[index] ?? IDLE_INPUT;
+            if (this.moveSnake(index, player, input.direction, dt, r)) someoneDied = true;
+        });
+
+        // Update entities
+        this.world.update(dt, this.getSnakes());
+
+        this.players.forEach((player, index) => {
+            const { snake, score } = player;
+            score.update(dt);
+            this.updatePowerUps(player, dt);
+
+            // Fruit Collection (lower player index wins a tie)
+            const headPos = snake.getHeadPosition();
+            const eaten = this.gameOver || !player.alive
+                ? null
+                : this.world.handleFruitCollection(headPos.x, headPos.z, r);
+            if (eaten !== null) {
+                const points = score.registerEat(eaten, this.world.getScaredOrganismCount());
+                snake.grow(CONFIG.SNAKE.GROWTH_PER_FRUIT);
+                snake.triggerEat();
+                this.applyPowerUp(player, eaten);
+                this.levelProgress.fruit++;
+                this.events.emit('fruitEaten', index, eaten, points, headPos.x, headPos.z);
+            }
+
+            // Organisms small enough to swallow
+            const organism = this.gameOver || !player.alive
+                ? null
+                : this.world.eatOrganismAt(headPos.x, headPos.z, r, this.getEdibleSize(snake));
+            if (organism !== null) {
+                const points = score.registerOrganism(organism.blobs);
+                snake.triggerEat();
+                this.events.emit('organismEaten', index, points, organism);
+            }
+
+            // Button effects (XYAB / 1234)
+            const effect = inputs[index]?.buttonEffect;
+            if (effect) {
+                const scared = this.world.scareOrganisms(headPos.x, headPos.z);
+                this.events.emit('buttonEffect', index, effect, headPos.x, headPos.z, scared);
+            }
+        });
+
+        if (someoneDied) this.checkRunEnd();
+        this.checkLevelWin(dt);
+    }
+
+    /**
+     * Count level time and end the run once the win condition is met
+     */
+    private checkLevelWin(dt: number) {
+        if (!this.level || this.gameOver) return;
+        this.levelProgress.time += dt;
+
+        const win = this.level.win;
+        const won = win.type === 'fruit'
+            ? this.levelProgress.fruit >= win.count
+            : this.levelProgress.time >= win.seconds;
+        if (won) {
+            this.gameOver = true;
+            this.events.emit('levelCompleted', this.levelProgress.time);
+        }
+    }
+
+    /**
+     * Move one snake, sliding along whatever blocks it.
+     * Returns true if the snake died this tick (classic mode).
+     */
+    private moveSnake(index: number, player: Player, input: { x: number, y: number }, dt: number, r: number): boolean {
+        const { snake } = player;
+        let died = false;
+
+        // Snakes are frozen once out (or while the run is over); the world keeps living
+        const direction = this.gameOver || !player.alive ? { x: 0, y: 0 } : input;
+        const boost = player.powerUps.speed > 0 ? CONFIG.FRUIT.POWER_UPS.SPEED.MULTIPLIER : 1;
+        const speed = CONFIG.SNAKE.SPEED * boost;
+
+        // Ghost mode: no organism blocks (or, in classic mode, kills) the snake
+        const passableSize = player.powerUps.ghost > 0 ? Infinity : this.getEdibleSize(snake);
+
+        // Calculate proposed move
+        let moveX = direction.x * speed * dt;
+        let moveZ = direction.y * speed * dt; // input y mapped to z
+
+        const currentPos = snake.getHeadPosition();
+
+        // Classic mode: check the unblocked target before organisms get a chance to block it.
+        // Skipped until the spawn coil has unwound, since it overlaps itself.
+        if (this.classicMode && !this.gameOver && player.alive && snake.isUncoiled()) {
+            const hit = this.world.getHeadCollision(
+                currentPos.x + moveX,
+                currentPos.z + moveZ,
+                r,
+                CONFIG.CLASSIC.NECK_SKIP_NODES,
+                index,
+                passableSize
+            );
+            if (hit) {
+                player.alive = false;
+                died = true;
+                snake.triggerBlink();
+                this.events.emit('died', index, hit);
+                moveX = 0;
+                moveZ = 0;
+            }
+        }
+
+        // Try moving X
+        if (Math.abs(moveX) > 0.0001) {
+            if (this.world.isPositionBlocked(currentPos.x + moveX, currentPos.z, r, index, passableSize)) {
+                moveX = 0; // Blocked
+                snake.triggerBlink(); // Visual feedback
+            }
+        }
+
+        // Try moving Z from the new X, for smoother sliding along corners
+        const tempX = currentPos.x + moveX;
+
+        if (Math.abs(moveZ) > 0.0001) {
+            if (this.world.isPositionBlocked(tempX, currentPos.z + moveZ, r, index, passableSize)) {
+                moveZ = 0;
+            }
+        }
+
+        // Reported once per stop, not every tick spent pushing
+        const blocked = !died && (direction.x !== 0 || direction.y !== 0) && moveX === 0 && moveZ === 0;
+        if (blocked && !player.blocked) this.events.emit('blocked', index, currentPos.x, currentPos.z);
+        player.blocked = blocked;
+
+        snake.move(new THREE.Vector3(moveX, 0, moveZ));
+        return died;
+    }
+
+    private applyPowerUp(player: Player, type: FruitType) {
+        const conf = CONFIG.FRUIT.POWER_UPS;
+        if (type === FruitType.SHRINK) {
+            player.snake.shrink(conf.SHRINK.SEGMENTS, conf.SHRINK.MIN_NODES);
+            return;
+        }
+
+        const powerUp = POWER_UP_FRUIT[type];
+        if (!powerUp) return;
+        const durations: Record<TimedPowerUp, number> = {
+            speed: conf.SPEED.DURATION,
+            ghost: conf.GHOST.DURATION,
+            magnet: conf.MAGNET.DURATION
+        };
+        // Eating the same kind again restarts its timer
+        player.powerUps[powerUp] = durations[powerUp];
+    }
+
+    /**
+     * Count down power-up timers and apply the ongoing magnet pull
+     */
+    private updatePowerUps(player: Player, dt: number) {
+        const { powerUps } = player;
+        for (const key of Object.keys(powerUps) as TimedPowerUp[]) {
+            powerUps[key] = Math.max(0, powerUps[key] - dt);
+        }
+
+        if (powerUps.magnet > 0 && player.alive && !this.gameOver) {
+            const { RADIUS, PULL_SPEED } = CONFIG.FRUIT.POWER_UPS.MAGNET;
+            const head = player.snake.getHeadPosition();
+            this.world.pullFruit(head.x, head.z, RADIUS, PULL_SPEED * dt);
+        }
+    }
+
+    /**
+     * Organisms with less total blob radius than this can be eaten; grows with the snake
+     */
+    private getEdibleSize(snake: Snake): number {
+        return snake.getNodeCount() * CONFIG.SNAKE.EDIBLE_SIZE_PER_NODE;
+    }
+
+    /**
+     * One player: the run ends with the snake. Several: it ends when at most one is left.
+     */
+    private checkRunEnd() {
+        const alive = this.players.filter(p => p.alive);
+        if (this.playerCount === 1) {
+            this.endRun(null);
+        } else if (alive.length <= 1) {
+            this.endRun(alive.length === 1 ? this.players.indexOf(alive[0]) : null);
+        }
+    }
+
+    private endRun(winner: number | null) {
+        this.gameOver = true;
+        this.events.emit('runEnded', winner);
+    }
+
+    /**
+     * Rules, player count and level (null = sandbox) for the next run. The world
+     * layout depends on both (spawn points, authored map), so follow with reset().
+     */
+    public configure(classicMode: boolean, playerCount: number, level: LevelData | null = null) {
+        this.classicMode = classicMode;
+        this.playerCount = playerCount;
+        this.level = level;
+        this.world.setPlayerCount(playerCount);
+        this.world.setLevel(level);
+    }
+
+    /**
+     * Start a new run: fresh obstacle layout, snakes, organisms, fruit and scores
+     */
+    public reset() {
+        this.world.reset();
+        this.gameOver = false;
+        this.levelProgress = { time: 0, fruit: 0 };
+        this.spawnPlayers();
+        this.events.emit('snakesSpawned', this.getSnakes());
+    }
+
+    private spawnPlayers() {
+        this.players = this.world.getSpawnPoints().map(point => ({
+            snake: new Snake(new THREE.Vector3(point.x, 0.5, point.z)),
+            score: new Score(),
+            alive: true,
+            blocked: false,
+            powerUps: { speed: 0, ghost: 0, magnet: 0 }
+        }));
+    }
+
+    /**
+     * Resize the world mid-run; snakes and everything else on the grid are kept
+     */
+    public resize(aspectRatio: number) {
+        this.world.resize(aspectRatio, this.getSnakes());
+    }
+
+    public getPlayers(): readonly Player[] {
+        return this.players;
+    }
+
+    public getSnakes(): Snake[] {
+        return this.players.map(p => p.snake);
+    }
+
+    public getPlayerCount(): number {
+        return this.playerCount;
+    }
+
+    public isGameOver(): boolean {
+        return this.gameOver;
+    }
+
+    public getLevel(): LevelData | null {
+        return this.level;
+    }
+
+    public getLevelProgress(): Readonly<LevelProgress> {
+        return this.levelProgress;
+    }
+
+    public isClassicMode(): boolean {
+        return this.classicMode;
+    }
+}
@@ -1,16 +1,33 @@
-import { SnakeVisuals } from './SnakeVisuals';
 import * as THREE from 'three';
 import { CONFIG } from '../constants';
+import { Emitter } from '../utils/Emitter';
 
+// Extra path kept past the tail, so rendering interpolated a tick behind never runs short
+const PATH_SLACK = 1.0;
+
+export type SnakeEvents = {
+    blink: [];
+    eat: [];
+};
+
+/**
+ * Snake Model
+ * Head position, path history and length. DOM-free; SnakeVisuals draws it
+ * and reacts to its events.
+ */
 export class Snake {
-    public mesh: THREE.Group;
-    private visuals: SnakeVisuals;
+    public readonly events = new Emitter<SnakeEvents>();
 
     // Movement
     private position: THREE.Vector3;
     private path: THREE.Vector3[] = [];
     // Number of visual nodes
     private nodeCount: number = CONFIG.SNAKE.INITIAL_NODES;
+    // Distance the head has moved since spawn (used to detect when the start coil has unwound)
+    private travelled: number = 0;
+    // Head displacement during the last simulation tick (for render interpolation)
+    private lastStepDistance: number = 0;
+    private initialLength: number;
 
     constructor(startPos: THREE.Vector3) {
         this.position = startPos.clone();
@@ -19,8 +36,9 @@ export class Snake {
         const nodeSpacing = CONFIG.SNAKE.NODE_SPACING;
         const pathSpacing = 0.1; // Dense path for smooth movement
         const requiredPathLength = this.nodeCount * nodeSpacing; // Total arc length needed
+        this.initialLength = requiredPathLength;
 
-        const coilGap = CONFIG.SNAKE.CIRCLE_RADIUS * 2.2; // Gap between coils
+        const coilGap = CONFIG.SNAKE.CIRCLE_RADIUS * CONFIG.SNAKE.COIL_GAP; // Gap between coils
         let angle = 0;
         let accumulatedLength = 0;
         let lastPoint = startPos.clone();
@@ -56,17 +74,16 @@ export class Snake {
             // Safety limit
             if (this.path.length > 2000) break;
         }
-
-        this.visuals = new SnakeVisuals();
-        this.mesh = this.visuals.mesh;
-
-        this.visuals.update(0, this.path);
     }
 
     public move(displacement: THREE.Vector3) {
+        this.lastStepDistance = 0;
+
         // Always update path history continuously
         if (displacement.lengthSq() > 0.000001) {
             this.position.add(displacement);
+            this.lastStepDistance = displacement.length();
+            this.travelled += this.lastStepDistance;
 
             // Interpolate points if large jump (lag or large dt)
             let lastHead = this.path[0];
@@ -85,7 +102,7 @@ export class Snake {
 
                 // Limit Path Length based on node count and spacing
                 const nodeSpacing = CONFIG.SNAKE.NODE_SPACING;
-                const maxPathLength = this.nodeCount * nodeSpacing;
+                const maxPathLength = this.nodeCount * nodeSpacing + PATH_SLACK;
                 const maxPoints = Math.ceil(maxPathLength / spacing);
                 if (this.path.length > maxPoints) {
                     this.path.length = maxPoints;
@@ -94,8 +111,54 @@ export class Snake {
         }
     }
 
-    public animate(dt: number) {
-        this.visuals.update(dt, this.path);
+    /**
+     * Add body segments. The path is not extended here; the tail simply
+     * stops being trimmed in move() until the new length is reached.
+     */
+    public grow(segments: number) {
+        this.nodeCount = Math.min(this.nodeCount + segments, CONFIG.SNAKE.MAX_NODES);
+    }
+
+    /**
+     * Remove body segments (shrink power-up). The path is trimmed on the next move.
+     */
+    public shrink(segments: number, minNodes: number) {
+        this.nodeCount = Math.max(this.nodeCount - segments, Math.min(minNodes, this.nodeCount));
+    }
+
+    /**
+     * True once the head has moved a full starting body length, i.e. no part
+     * of the spawn spiral is left. The coil overlaps itself, so self-collision
+     * is only meaningful after this.
+     */
+    public isUncoiled(): boolean {
+        return this.travelled >= this.initialLength;
+    }
+
+    /**
+     * Pull the head and the whole path back inside the given half extents
+     * (the world shrank under the snake)
+     */
+    public clampTo(halfWidth: number, halfDepth: number) {
+        const clamp = (p: THREE.Vector3) => {
+            p.x = Math.max(-halfWidth, Math.min(halfWidth, p.x));
+            p.z = Math.max(-halfDepth, Math.min(halfDepth, p.z));
+        };
+        clamp(this.position);
+        this.path.forEach(clamp);
+    }
+
+    public getNodeCount(): number {
+        return this.nodeCount;
+    }
+
+    /**
+     * alpha (0..1) is the render position between the previous and the current tick.
+     * The body follows its own path, so interpolating is just drawing the snake
+     * slightly further back along that path. Returns that arc length.
+     */
+    public getRenderLag(alpha: number): number {
+        return (1 - alpha) * this.lastStepDistance;
     }
 
     public getHeadPosition(): THREE.Vector3 {
@@ -107,10 +170,10 @@ export class Snake {
     }
 
     public triggerBlink() {
-        this.visuals.triggerBlink();
+        this.events.emit('blink');
     }
 
     public triggerEat() {
-        this.visuals.triggerEat();
+        this.events.emit('eat');
     }
 }
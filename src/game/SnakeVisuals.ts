@@ -1,7 +1,12 @@
 import * as THREE from 'three';
 import { CONFIG } from '../constants';
+import { RNG } from '../utils/Random';
+import type { Snake } from './Snake';
 
-const MAX_POINTS = 200;
+const rng = RNG.stream('snake');
+
+// Head point + one point per body node
+const MAX_POINTS = CONFIG.SNAKE.MAX_NODES + 1;
 
 const VERTEX_SHADER = `
 varying vec2 vUv;
@@ -30,6 +35,10 @@ uniform vec3 uEatColor; // Configured color
 uniform float uPulseSpeed;
 uniform vec3 uSpineColor; // New Spine Color
 
+// Body hue band: full rainbow by default, narrowed to a player colour in multiplayer
+uniform float uHueBase;
+uniform float uHueRange;
+
 // --- NOISE FUNCTIONS ---
 vec3 mod289(vec3 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
 vec2 mod289(vec2 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
@@ -141,7 +150,7 @@ void main() {
         
         // --- COLOR ---
         float t = float(i) / float(max(uPointCount, 1));
-        float hue = fract(t * 1.0 - uTime * 0.1); 
+        float hue = fract(uHueBase + (t - uTime * 0.1) * uHueRange);
         vec3 col = hsv2rgb(vec3(hue, 0.45, 1.0)); 
         
         // MIX EAT PULSE
@@ -267,8 +276,14 @@ export class SnakeEye { // ... (Keep SnakeEye as is)
 
         this.setNextBlink();
     }
+    public dispose() {
+        for (const mesh of [this.eyeBall, this.pupil]) {
+            mesh.geometry.dispose();
+            (mesh.material as THREE.Material).dispose();
+        }
+    }
     private setNextBlink() {
-        this.nextBlink = 1.0 + Math.random() * 3.0;
+        this.nextBlink = 1.0 + rng.next() * 3.0;
         this.blinkTimer = 0;
         this.isBlinking = false;
     }
@@ -309,13 +324,28 @@ export class SnakeEye { // ... (Keep SnakeEye as is)
 
 export class SnakeVisuals {
     public mesh: THREE.Group;
+    private snake: Snake;
     private slimeMesh: THREE.Mesh;
     private material: THREE.ShaderMaterial;
     private eyes: SnakeEye[] = [];
     private eatTimer: number = -1.0;
+    private unsubscribers: (() => void)[] = [];
 
-    constructor() {
+    /**
+     * color: player colour for multiplayer; omitted, the body cycles the full rainbow
+     */
+    constructor(snake: Snake, color?: number) {
         this.mesh = new THREE.Group();
+        this.snake = snake;
+
+        let hueBase = 0.0;
+        let hueRange = 1.0;
+        if (color !== undefined) {
+            const hsl = { h: 0, s: 0, l: 0 };
+            new THREE.Color(color).getHSL(hsl);
+            hueRange = CONFIG.MULTIPLAYER.HUE_RANGE;
+            hueBase = hsl.h - hueRange / 2;
+        }
 
         const geometry = new THREE.PlaneGeometry(100, 100);
         geometry.rotateX(-Math.PI / 2);
@@ -331,7 +361,9 @@ export class SnakeVisuals {
                 uEatTime: { value: -1.0 },
                 uEatColor: { value: new THREE.Color(CONFIG.SNAKE.EAT_PULSE.COLOR) },
                 uPulseSpeed: { value: CONFIG.SNAKE.EAT_PULSE.SPEED },
-                uSpineColor: { value: new THREE.Color(CONFIG.SNAKE.SPINE_COLOR) }
+                uSpineColor: { value: new THREE.Color(CONFIG.SNAKE.SPINE_COLOR) },
+                uHueBase: { value: hueBase },
+                uHueRange: { value: hueRange }
             },
             transparent: true,
             depthWrite: true,
@@ -346,11 +378,29 @@ export class SnakeVisuals {
         this.eyes.push(leftEye, rightEye);
         this.mesh.add(leftEye.mesh);
         this.mesh.add(rightEye.mesh);
+
+        this.unsubscribers.push(
+            snake.events.on('blink', () => this.triggerBlink()),
+            snake.events.on('eat', () => this.triggerEat())
+        );
+
+        this.update(0, snake.getPath(), 0, snake.getNodeCount());
+    }
+
+    /**
+     * Per-frame draw of the bound snake; alpha as in Snake.getRenderLag
+     */
+    public render(dt: number, alpha: number) {
+        this.update(dt, this.snake.getPath(), this.snake.getRenderLag(alpha), this.snake.getNodeCount());
     }
     public triggerEat() {
         this.eatTimer = 0.0;
     }
-    public update(dt: number, snakePath: THREE.Vector3[]) {
+    /**
+     * lag: arc length along the path where the head is drawn (render interpolation)
+     * nodeCount: body nodes to draw; the path may be a little longer than the body
+     */
+    public update(dt: number, snakePath: THREE.Vector3[], lag: number = 0, nodeCount: number = MAX_POINTS - 1) {
         const time = this.material.uniforms.uTime.value + dt;
         this.material.uniforms.uTime.value = time;
 
@@ -363,17 +413,15 @@ export class SnakeVisuals {
         this.material.uniforms.uEatTime.value = this.eatTimer;
 
         const visualPoints: THREE.Vector2[] = [];
-
+        const maxPoints = Math.min(MAX_POINTS, nodeCount + 1);
 
         if (snakePath.length > 0) {
-            visualPoints.push(new THREE.Vector2(snakePath[0].x, snakePath[0].z));
-
             const nodeSpacing = CONFIG.SNAKE.NODE_SPACING;
             let currentPathDist = 0;
-            let nextBlobDist = nodeSpacing;
+            let nextBlobDist = lag; // First sample is the head
 
             for (let i = 0; i < snakePath.length - 1; i++) {
-                if (visualPoints.length >= MAX_POINTS) break;
+                if (visualPoints.length >= maxPoints) break;
 
                 const p1 = snakePath[i];
                 const p2 = snakePath[i + 1];
@@ -382,7 +430,7 @@ export class SnakeVisuals {
                 if (segLen < 0.0001) continue;
 
                 while (currentPathDist + segLen >= nextBlobDist) {
-                    if (visualPoints.length >= MAX_POINTS) break;
+                    if (visualPoints.length >= maxPoints) break;
 
                     const distOnSeg = nextBlobDist - currentPathDist;
                     const alpha = distOnSeg / segLen;
@@ -394,6 +442,11 @@ export class SnakeVisuals {
                 }
                 currentPathDist += segLen;
             }
+
+            // Degenerate path (single point)
+            if (visualPoints.length === 0) {
+                visualPoints.push(new THREE.Vector2(snakePath[0].x, snakePath[0].z));
+            }
         }
 
         this.material.uniforms.uPointCount.value = visualPoints.length;
@@ -418,4 +471,13 @@ export class SnakeVisuals {
             eye.triggerBlink();
         }
     }
+    public dispose() {
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+        this.slimeMesh.geometry.dispose();
+        this.material.dispose();
+        for (const eye of this.eyes) {
+            eye.dispose();
+        }
+    }
 }
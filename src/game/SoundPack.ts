@@ -0,0 +1,105 @@
+import { isNumber, isRecord } from '../utils/Guards';
+
+export type SoundEvent =
+    | 'eat' | 'buttonX' | 'buttonY' | 'buttonA' | 'buttonB'
+    | 'block' | 'gameOver' | 'music';
+
+export const SOUND_EVENTS: SoundEvent[] = [
+    'eat', 'buttonX', 'buttonY', 'buttonA', 'buttonB', 'block', 'gameOver', 'music'
+];
+
+export const SOUND_PACK_VERSION = 1;
+
+/**
+ * One sample: a file path (relative to the manifest) or a path with a volume (0-1)
+ */
+export type SoundEntry = string | { file: string, volume?: number };
+
+/**
+ * Sound pack manifest, e.g.
+ *   { "version": 1, "sounds": { "eat": "eat.ogg", "music": { "file": "loop.ogg", "volume": 0.7 } } }
+ * Events left out keep their synthesized sound. 'music' loops in place of the procedural music.
+ */
+export interface SoundPackManifest {
+    version: number;
+    sounds: Partial<Record<SoundEvent, SoundEntry>>;
+}
+
+export interface Sample {
+    buffer: AudioBuffer;
+    volume: number;
+}
+
+/**
+ * Check a parsed manifest and return it typed. Unknown event names are dropped with a warning.
+ */
+export function parseSoundPackManifest(raw: unknown): SoundPackManifest {
+    const version = isRecord(raw) ? raw.version : undefined;
+    if (!isRecord(raw) || version !== SOUND_PACK_VERSION) {
+        throw new Error(`Unsupported sound pack version: ${version}`);
+    }
+    if (!isRecord(raw.sounds)) {
+        throw new Error('Sound pack has no sounds table');
+    }
+
+    const isSoundEvent = (name: string): name is SoundEvent => (SOUND_EVENTS as string[]).includes(name);
+    const validVolume = (v: unknown) => v === undefined || (isNumber(v) && v >= 0 && v <= 1);
+    const sounds: Partial<Record<SoundEvent, SoundEntry>> = {};
+    for (const [event, entry] of Object.entries(raw.sounds)) {
+        if (!isSoundEvent(event)) {
+            console.warn(`[SoundPack] Unknown sound event: ${event}`);
+            continue;
+        }
+        if (typeof entry === 'string') {
+            sounds[event] = entry;
+        } else if (isRecord(entry) && typeof entry.file === 'string' && validVolume(entry.volume)) {
+            sounds[event] = isNumber(entry.volume) ? { file: entry.file, volume: entry.volume } : { file: entry.file };
+        } else {
+            throw new Error(`Sound pack entry for ${event} must be a file name or { file, volume }`);
+        }
+    }
+    return { version: SOUND_PACK_VERSION, sounds };
+}
+
+/**
+ * Samples decoded from a sound pack. Loading never throws: a missing
+ * manifest or a file that fails to load or decode leaves that event empty,
+ * and Audio falls back to its synth for it.
+ */
+export class SoundPack {
+    private samples = new Map<SoundEvent, Sample>();
+
+    public get(event: SoundEvent): Sample | null {
+        return this.samples.get(event) ?? null;
+    }
+
+    /**
+     * Fetch the manifest and decode every sample it lists (in parallel)
+     */
+    public async load(context: BaseAudioContext, manifestUrl: string) {
+        let manifest: SoundPackManifest;
+        const base = new URL(manifestUrl, document.baseURI);
+        try {
+            const response = await fetch(base);
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            manifest = parseSoundPackManifest(await response.json());
+        } catch (err) {
+            console.warn('[SoundPack] Could not load sound pack manifest', err);
+            return;
+        }
+
+        const entries = Object.entries(manifest.sounds) as [SoundEvent, SoundEntry][];
+        await Promise.all(entries.map(async ([event, entry]) => {
+            const file = typeof entry === 'string' ? entry : entry.file;
+            const volume = typeof entry === 'string' ? 1 : entry.volume ?? 1;
+            try {
+                const response = await fetch(new URL(file, base));
+                if (!response.ok) throw new Error(`HTTP ${response.status}`);
+                const buffer = await context.decodeAudioData(await response.arrayBuffer());
+                this.samples.set(event, { buffer, volume });
+            } catch (err) {
+                console.warn(`[SoundPack] Could not load ${file} for ${event}; using the synth`, err);
+            }
+        }));
+    }
+}
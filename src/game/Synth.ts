@@ -0,0 +1,438 @@
+/**
+ * Synth
+ * The procedural sounds: effects, music notes, the pad and the melodic
+ * sequencer. Every routine draws into whatever context and output node it is
+ * given: the live AudioContext (through Audio's buses and panners), an
+ * OfflineAudioContext, or the Node stand-in scripts/check_audio.ts renders with.
+ */
+
+import { CONFIG } from '../constants';
+import type { Random } from '../utils/Random';
+
+export type EffectButton = 'X' | 'Y' | 'A' | 'B';
+
+/**
+ * What the sequencer plays with on each step
+ */
+export interface MusicParams {
+    layers: number;    // Extra layers (see CONFIG.AUDIO.MUSIC.LAYER_GROWTH)
+    transpose: number; // Semitones from C major
+    tempo: number;     // 1 = normal
+}
+
+/**
+ * Where a melodic sequence is; one per playthrough of the music
+ */
+export interface SequencerState {
+    patternIndex: number;
+    noteIndex: number;
+    measureCount: number;
+}
+
+// Extended scale: C major pentatonic across 2 octaves
+const NOTES = [
+    196.00, 220.00, 261.63, 293.66, 329.63,  // G3, A3, C4, D4, E4
+    392.00, 440.00, 523.25, 587.33, 659.25,  // G4, A4, C5, D5, E5
+    783.99, 880.00                            // G5, A5
+];
+
+// More varied arpeggio patterns (indices into NOTES)
+const PATTERNS = [
+    [2, 4, 6, 7],     // C4, E4, A4, C5
+    [3, 5, 7, 9],     // D4, G4, C5, E5
+    [0, 2, 5, 7],     // G3, C4, G4, C5
+    [4, 6, 8, 10],    // E4, A4, D5, G5
+    [1, 4, 6, 8],     // A3, E4, A4, D5
+    [2, 5, 7, 10],    // C4, G4, C5, G5
+    [3, 6, 8, 9],     // D4, A4, D5, E5
+    [0, 4, 7, 9],     // G3, E4, C5, E5
+];
+
+// Bass notes that complement the patterns
+const BASS_NOTES = [65.41, 73.42, 82.41, 98.00]; // C2, D2, E2, G2
+
+// Soft pad chord: C major with added 9th for dreamy feel
+const PAD_NOTES = [130.81, 164.81, 196.00, 293.66]; // C3, E3, G3, D4
+
+export function transposeFrequency(freq: number, semitones: number): number {
+    return freq * Math.pow(2, semitones / 12);
+}
+
+export class Synth {
+    private context: BaseAudioContext;
+    private rng: Random;
+
+    constructor(context: BaseAudioContext, rng: Random) {
+        this.context = context;
+        this.rng = rng;
+    }
+
+    // --- Effects ---
+
+    /**
+     * Fruit eaten: a satisfying "blip/pop" sound with harmonic overtones
+     */
+    public eat(output: AudioNode, startTime: number) {
+        // Main tone - rising pitch "blip"
+        const osc1 = this.context.createOscillator();
+        osc1.type = 'sine';
+        osc1.frequency.setValueAtTime(300, startTime);
+        osc1.frequency.exponentialRampToValueAtTime(600, startTime + 0.08);
+        osc1.frequency.exponentialRampToValueAtTime(800, startTime + 0.12);
+
+        // Harmonic overtone
+        const osc2 = this.context.createOscillator();
+        osc2.type = 'sine';
+        osc2.frequency.setValueAtTime(600, startTime);
+        osc2.frequency.exponentialRampToValueAtTime(1200, startTime + 0.08);
+
+        // Envelope
+        const envelope = this.context.createGain();
+        envelope.gain.setValueAtTime(0, startTime);
+        envelope.gain.linearRampToValueAtTime(0.4, startTime + 0.02);
+        envelope.gain.exponentialRampToValueAtTime(0.01, startTime + 0.2);
+
+        // Second envelope for overtone (faster decay)
+        const envelope2 = this.context.createGain();
+        envelope2.gain.setValueAtTime(0, startTime);
+        envelope2.gain.linearRampToValueAtTime(0.15, startTime + 0.01);
+        envelope2.gain.exponentialRampToValueAtTime(0.01, startTime + 0.1);
+
+        osc1.connect(envelope);
+        osc2.connect(envelope2);
+        envelope.connect(output);
+        envelope2.connect(output);
+
+        osc1.start(startTime);
+        osc2.start(startTime);
+        osc1.stop(startTime + 0.25);
+        osc2.stop(startTime + 0.15);
+    }
+
+    /**
+     * Button effect: each button has a unique musical sound
+     */
+    public button(button: EffectButton, output: AudioNode, startTime: number) {
+        const pitch = CONFIG.BUTTON_EFFECTS[button].PITCH;
+
+        switch (button) {
+            case 'X': // Blue - shimmer arpeggio up
+                this.arpeggio([pitch, pitch * 1.25, pitch * 1.5, pitch * 2], 0.05, output, startTime);
+                break;
+            case 'Y': // Yellow - bright chord
+                this.chord([pitch, pitch * 1.25, pitch * 1.5], 0.3, output, startTime);
+                break;
+            case 'A': // Green - bouncy boing
+                this.boing(pitch, output, startTime);
+                break;
+            case 'B': // Red - deep thump
+                this.thump(pitch, output, startTime);
+                break;
+        }
+    }
+
+    /**
+     * Game over: a low falling thump with a noisy crunch on top
+     */
+    public gameOver(output: AudioNode, startTime: number) {
+        this.thump(180, output, startTime);
+        this.noiseBurst(0.4, 800, 0.15, output, startTime);
+    }
+
+    /**
+     * Snake running into something: a soft, low thud
+     */
+    public block(output: AudioNode, startTime: number) {
+        const quiet = this.context.createGain();
+        quiet.gain.value = 0.3;
+        quiet.connect(output);
+        this.thump(110, quiet, startTime);
+    }
+
+    public arpeggio(freqs: number[], interval: number, output: AudioNode, startTime: number) {
+        freqs.forEach((freq, i) => {
+            const osc = this.context.createOscillator();
+            osc.type = 'sine';
+            osc.frequency.value = freq;
+
+            const env = this.context.createGain();
+            const t = startTime + i * interval;
+            env.gain.setValueAtTime(0, t);
+            env.gain.linearRampToValueAtTime(0.25, t + 0.02);
+            env.gain.exponentialRampToValueAtTime(0.01, t + 0.2);
+
+            osc.connect(env);
+            env.connect(output);
+            osc.start(t);
+            osc.stop(t + 0.25);
+        });
+    }
+
+    public chord(freqs: number[], duration: number, output: AudioNode, startTime: number) {
+        freqs.forEach(freq => {
+            const osc = this.context.createOscillator();
+            osc.type = 'triangle';
+            osc.frequency.value = freq;
+
+            const env = this.context.createGain();
+            env.gain.setValueAtTime(0, startTime);
+            env.gain.linearRampToValueAtTime(0.2, startTime + 0.02);
+            env.gain.exponentialRampToValueAtTime(0.01, startTime + duration);
+
+            osc.connect(env);
+            env.connect(output);
+            osc.start(startTime);
+            osc.stop(startTime + duration);
+        });
+    }
+
+    public boing(freq: number, output: AudioNode, startTime: number) {
+        const osc = this.context.createOscillator();
+        osc.type = 'sine';
+        osc.frequency.setValueAtTime(freq * 0.5, startTime);
+        osc.frequency.exponentialRampToValueAtTime(freq * 2, startTime + 0.1);
+        osc.frequency.exponentialRampToValueAtTime(freq, startTime + 0.3);
+
+        const env = this.context.createGain();
+        env.gain.setValueAtTime(0, startTime);
+        env.gain.linearRampToValueAtTime(0.35, startTime + 0.02);
+        env.gain.exponentialRampToValueAtTime(0.01, startTime + 0.4);
+
+        osc.connect(env);
+        env.connect(output);
+        osc.start(startTime);
+        osc.stop(startTime + 0.5);
+    }
+
+    public thump(freq: number, output: AudioNode, startTime: number) {
+        const osc = this.context.createOscillator();
+        osc.type = 'sine';
+        osc.frequency.setValueAtTime(freq, startTime);
+        osc.frequency.exponentialRampToValueAtTime(freq * 0.3, startTime + 0.15);
+
+        const env = this.context.createGain();
+        env.gain.setValueAtTime(0, startTime);
+        env.gain.linearRampToValueAtTime(0.5, startTime + 0.01);
+        env.gain.exponentialRampToValueAtTime(0.01, startTime + 0.3);
+
+        // Add sub-bass
+        const sub = this.context.createOscillator();
+        sub.type = 'sine';
+        sub.frequency.value = freq * 0.5;
+
+        const subEnv = this.context.createGain();
+        subEnv.gain.setValueAtTime(0.3, startTime);
+        subEnv.gain.exponentialRampToValueAtTime(0.01, startTime + 0.2);
+
+        osc.connect(env);
+        sub.connect(subEnv);
+        env.connect(output);
+        subEnv.connect(output);
+
+        osc.start(startTime);
+        sub.start(startTime);
+        osc.stop(startTime + 0.35);
+        sub.stop(startTime + 0.25);
+    }
+
+    public noiseBurst(duration: number, filterFreq: number, volume: number, output: AudioNode, startTime: number) {
+        const bufferSize = Math.ceil(this.context.sampleRate * duration * 2);
+        const noiseBuffer = this.context.createBuffer(1, bufferSize, this.context.sampleRate);
+        const samples = noiseBuffer.getChannelData(0);
+
+        for (let i = 0; i < bufferSize; i++) {
+            samples[i] = this.rng.next() * 2 - 1;
+        }
+
+        const noise = this.context.createBufferSource();
+        noise.buffer = noiseBuffer;
+
+        const filter = this.context.createBiquadFilter();
+        filter.type = 'highpass';
+        filter.frequency.value = filterFreq;
+
+        const envelope = this.context.createGain();
+        envelope.gain.setValueAtTime(volume, startTime);
+        envelope.gain.exponentialRampToValueAtTime(0.01, startTime + duration);
+
+        noise.connect(filter);
+        filter.connect(envelope);
+        envelope.connect(output);
+
+        noise.start(startTime);
+        noise.stop(startTime + duration);
+    }
+
+    // --- Music ---
+
+    /**
+     * A new melodic sequence, starting from a random pattern for variety
+     */
+    public startSequence(): SequencerState {
+        return {
+            patternIndex: Math.floor(this.rng.next() * PATTERNS.length),
+            noteIndex: 0,
+            measureCount: 0
+        };
+    }
+
+    /**
+     * Play one step of the melodic sequence and advance it.
+     * Returns the seconds until the next step is due.
+     */
+    public sequencerStep(state: SequencerState, params: MusicParams, output: AudioNode, startTime: number): number {
+        const pattern = PATTERNS[state.patternIndex];
+        let index = pattern[state.noteIndex];
+
+        // Occasional random variation (10% chance to pick nearby note)
+        if (this.rng.next() < 0.1) {
+            const variation = this.rng.next() < 0.5 ? -1 : 1;
+            index = Math.max(0, Math.min(NOTES.length - 1, index + variation));
+        }
+
+        // Fast energetic tempo, faster still with speed and combo
+        const interval = (0.15 + this.rng.next() * 0.05) / params.tempo;
+        const noteDuration = 0.25 + this.rng.next() * 0.1;
+
+        const volume = 0.08 + this.rng.next() * 0.04; // Slight volume variation
+        this.musicNote(transposeFrequency(NOTES[index], params.transpose), volume, noteDuration, output, startTime);
+
+        // Layer 1: a harmony two scale steps up on off-beats
+        if (params.layers >= 1 && state.noteIndex % 2 === 1) {
+            const harmony = NOTES[Math.min(index + 2, NOTES.length - 1)];
+            this.musicNote(transposeFrequency(harmony, params.transpose), volume * 0.5, noteDuration, output, startTime);
+        }
+
+        // Layer 3: hi-hat on every note (layer 2 is the pad)
+        if (params.layers >= 3) {
+            this.noiseBurst(0.04, 7000, 0.04, output, startTime);
+        }
+
+        // Play bass note on first beat of pattern
+        if (state.noteIndex === 0) {
+            this.bassNote(transposeFrequency(BASS_NOTES[state.patternIndex % BASS_NOTES.length], params.transpose), output, startTime);
+        }
+
+        // Advance to next note
+        state.noteIndex++;
+        if (state.noteIndex >= pattern.length) {
+            state.noteIndex = 0;
+            state.measureCount++;
+
+            // Change pattern - sometimes random, sometimes sequential
+            if (state.measureCount % 4 === 0 && this.rng.next() < 0.3) {
+                state.patternIndex = Math.floor(this.rng.next() * PATTERNS.length);
+            } else {
+                state.patternIndex = (state.patternIndex + 1) % PATTERNS.length;
+            }
+        }
+
+        return interval;
+    }
+
+    /**
+     * One plucked sine note
+     */
+    public musicNote(freq: number, volume: number, duration: number, output: AudioNode, startTime: number) {
+        // Create oscillator for the note
+        const osc = this.context.createOscillator();
+        osc.type = 'sine';
+        osc.frequency.value = freq;
+        osc.detune.value = (this.rng.next() - 0.5) * 6;
+
+        // Envelope
+        const envelope = this.context.createGain();
+        envelope.gain.setValueAtTime(0, startTime);
+        envelope.gain.linearRampToValueAtTime(volume, startTime + 0.04);
+        envelope.gain.exponentialRampToValueAtTime(volume * 0.5, startTime + duration * 0.6);
+        envelope.gain.exponentialRampToValueAtTime(0.001, startTime + duration);
+
+        // Filter
+        const filter = this.context.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.frequency.value = 1800 + this.rng.next() * 400;
+
+        osc.connect(filter);
+        filter.connect(envelope);
+        envelope.connect(output);
+
+        osc.start(startTime);
+        osc.stop(startTime + duration);
+    }
+
+    public bassNote(freq: number, output: AudioNode, startTime: number) {
+        const osc = this.context.createOscillator();
+        osc.type = 'sine';
+        osc.frequency.value = freq;
+
+        const envelope = this.context.createGain();
+        envelope.gain.setValueAtTime(0, startTime);
+        envelope.gain.linearRampToValueAtTime(0.08, startTime + 0.03);
+        envelope.gain.exponentialRampToValueAtTime(0.03, startTime + 0.3);
+        envelope.gain.exponentialRampToValueAtTime(0.001, startTime + 0.5);
+
+        const filter = this.context.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.frequency.value = 300;
+
+        osc.connect(filter);
+        filter.connect(envelope);
+        envelope.connect(output);
+
+        osc.start(startTime);
+        osc.stop(startTime + 0.6);
+    }
+
+    /**
+     * Sustained pad chord, playing from startTime until the returned oscillators are stopped
+     */
+    public pad(transpose: number, output: AudioNode, startTime: number): OscillatorNode[] {
+        const oscillators: OscillatorNode[] = [];
+
+        PAD_NOTES.forEach((freq, i) => {
+            const osc = this.context.createOscillator();
+            osc.type = 'sine';
+            osc.frequency.value = transposeFrequency(freq, transpose);
+            osc.detune.value = (this.rng.next() - 0.5) * 6;
+
+            const gain = this.context.createGain();
+            gain.gain.value = 0.03; // Very soft
+
+            // Slow volume modulation for movement
+            const lfo = this.context.createOscillator();
+            lfo.type = 'sine';
+            lfo.frequency.value = 0.15 + i * 0.05;
+
+            const lfoGain = this.context.createGain();
+            lfoGain.gain.value = 0.015;
+
+            lfo.connect(lfoGain);
+            lfoGain.connect(gain.gain);
+
+            // Low-pass for softness
+            const filter = this.context.createBiquadFilter();
+            filter.type = 'lowpass';
+            filter.frequency.value = 600;
+
+            osc.connect(filter);
+            filter.connect(gain);
+            gain.connect(output);
+
+            osc.start(startTime);
+            lfo.start(startTime);
+            oscillators.push(osc, lfo);
+        });
+
+        return oscillators;
+    }
+
+    /**
+     * Short musical flourish: rising for fruit, falling for a scare
+     */
+    public stinger(kind: 'fruit' | 'scare', transpose: number, output: AudioNode, startTime: number) {
+        const freqs = kind === 'fruit'
+            ? [523.25, 659.25, 783.99]  // C5, E5, G5 rising
+            : [440.00, 329.63, 261.63]; // A4, E4, C4 falling
+        freqs.forEach((freq, i) => this.musicNote(transposeFrequency(freq, transpose), 0.07, 0.2, output, startTime + i * 0.06));
+    }
+}
@@ -0,0 +1,1333 @@
+import * as THREE from 'three';
+import Matter from 'matter-js';
+import { CONFIG } from '../constants';
+import type { FruitType } from './FruitVisuals';
+import { ObstacleMap } from './ObstacleMap';
+import { inZone, getLevelSize } from './Level';
+import type { LevelData } from './Level';
+import { RNG } from '../utils/Random';
+import { Emitter } from '../utils/Emitter';
+import type { Snake } from './Snake';
+
+const rng = RNG.stream('world');
+
+/**
+ * World Simulation
+ * DOM-free model of everything on the grid: walls, obstacles, organisms,
+ * fruit and the snake's colliders, all backed by one Matter.js engine.
+ * Runs under Node; Grid (and the other *Visuals classes) subscribe to its
+ * events and draw it.
+ */
+
+// Interface for Organisms with Physics
+export interface BlobNode {
+    pos: THREE.Vector3;
+    prevPos: THREE.Vector3; // Position at the previous simulation tick (render interpolation)
+    r: number;
+    parentIndex: number;
+    dist: number;
+    wigglePhase: number;
+    hasEye: boolean;
+}
+
+export interface Organism {
+    id: number;
+    headBody: Matter.Body; // The driving force
+    segmentBodies: Matter.Body[]; // Passive collision bodies for tail
+    nodes: BlobNode[]; // For visuals and soft body logic
+    angle: number;
+    speed: number;
+    scaredTimer: number; // Time remaining in scared state
+
+    // Lifecycle: grows in (appearing), lives out its lifetime, shrinks away (vanishing)
+    appearing: boolean;
+    vanishing: boolean;
+    scale: number; // 0..1 while appearing/vanishing
+    age: number;
+    lifetime: number;
+    leaderTimer: number;
+    color: THREE.Color;
+}
+
+export type HeadCollision = 'self' | 'snake' | 'organism' | null;
+
+/**
+ * An organism a snake has just eaten (it is already gone from the world)
+ */
+export interface EatenOrganism {
+    x: number; // Centre of mass
+    z: number;
+    blobs: number;
+    color: THREE.Color;
+}
+
+export interface Fruit {
+    x: number;
+    z: number;
+    type: FruitType;
+    body: Matter.Body;
+}
+
+export interface ObstacleCell {
+    x: number;
+    z: number;
+    mask: number; // Neighbour bitmask for ObstacleVisuals (1=N, 2=E, 4=S, 8=W)
+}
+
+export type WorldEvents = {
+    organismAdded: [org: Organism];
+    organismRemoved: [org: Organism];
+    fruitAdded: [fruit: Fruit];
+    fruitRemoved: [fruit: Fruit];
+    layoutChanged: [];  // New obstacle layout (run start)
+    boundsChanged: [];  // World resized; out-of-bounds obstacles may have been dropped
+};
+
+export class World {
+    public readonly events = new Emitter<WorldEvents>();
+    private width: number = 100;
+    private depth: number = 100;
+
+    private organisms: Organism[] = [];
+    private fruits: Fruit[] = [];
+    private obstacleBodies: Matter.Body[] = [];
+    private obstacleCells: ObstacleCell[] = [];
+    private obstacleMap!: ObstacleMap;
+    private fruitSpawnPoints: { x: number, z: number }[] = [];
+    private nextOrganismId = 0;
+    private time: number = 0;
+    private playerCount: number = 1;
+
+    // Authored level (campaign), or null for the random sandbox layout
+    private level: LevelData | null = null;
+    private organismCount: number = CONFIG.ORGANISMS.COUNT;
+    private fruitCount: number = CONFIG.FRUIT.TARGET_COUNT;
+
+    // --- PHYSICS ---
+    private engine: Matter.Engine;
+    private world: Matter.World;
+    private wallBodies: Matter.Body[] = [];
+    private snakeBodies: Matter.Body[][] = []; // Collider pool per snake, following its path
+    private snakeOwner: WeakMap<Matter.Body, number> = new WeakMap(); // Snake body -> snake index
+    private bodyOrganism: WeakMap<Matter.Body, Organism> = new WeakMap();
+
+    // Organism bodies of despawned organisms, reused by the next spawns
+    private headBodyPool: Matter.Body[] = [];
+    private tailBodyPool: Matter.Body[] = [];
+
+    // Collision Categories
+    private readonly CAT_SNAKE = 0x0001;
+    private readonly CAT_ORGANISM = 0x0002;
+    private readonly CAT_WALL = 0x0004;
+    private readonly CAT_FRUIT = 0x0008;
+
+    constructor(aspectRatio: number, playerCount: number = 1) {
+        this.setPlayerCount(playerCount);
+
+        // 1. Init Physics
+        this.engine = Matter.Engine.create();
+        this.world = this.engine.world;
+        this.world.gravity.y = 0; // Top-down
+
+        this.setSize(aspectRatio);
+        this.reset();
+    }
+
+    /**
+     * A level has a fixed size; the sandbox follows the window aspect
+     */
+    private setSize(aspectRatio: number) {
+        if (this.level) {
+            const size = getLevelSize(this.level);
+            this.width = size.width;
+            this.depth = size.depth;
+            return;
+        }
+        this.depth = CONFIG.GRID.FIXED_SIDE;
+        this.width = this.depth * aspectRatio;
+    }
+
+    /**
+     * Change the world size mid-run. Everything on the grid is kept: only the
+     * walls move, and whatever ends up outside them (snakes, organisms) is pulled
+     * back in or (obstacles, fruit) dropped.
+     */
+    public resize(aspectRatio: number, snakes: readonly Snake[] = []) {
+        this.setSize(aspectRatio);
+        this.buildWalls();
+        this.fitEntities(snakes);
+        this.events.emit('boundsChanged');
+    }
+
+    private buildWalls() {
+        Matter.World.remove(this.world, this.wallBodies);
+        this.wallBodies = [];
+
+        const wallThickness = 10;
+        const halfW = this.width / 2;
+        const halfD = this.depth / 2;
+        const offset = wallThickness / 2;
+
+        const options = {
+            isStatic: true,
+            collisionFilter: {
+                category: this.CAT_WALL
+            },
+            label: 'Wall Body'
+        };
+
+        // Top, Bottom, Left, Right
+        this.wallBodies.push(Matter.Bodies.rectangle(0, -halfD - offset, this.width, wallThickness, options));
+        this.wallBodies.push(Matter.Bodies.rectangle(0, halfD + offset, this.width, wallThickness, options));
+        this.wallBodies.push(Matter.Bodies.rectangle(-halfW - offset, 0, wallThickness, this.depth, options));
+        this.wallBodies.push(Matter.Bodies.rectangle(halfW + offset, 0, wallThickness, this.depth, options));
+
+        Matter.World.add(this.world, this.wallBodies);
+    }
+
+    /**
+     * Number of snakes; takes effect on the next reset (spawn points are kept clear of obstacles)
+     */
+    public setPlayerCount(count: number) {
+        this.playerCount = Math.max(1, Math.min(count, CONFIG.MULTIPLAYER.MAX_PLAYERS));
+    }
+
+    /**
+     * Play an authored level (or null for the sandbox). Size, layout and
+     * populations take effect on the next reset.
+     */
+    public setLevel(level: LevelData | null) {
+        this.level = level;
+        this.organismCount = level ? level.organisms.count : CONFIG.ORGANISMS.COUNT;
+        this.fruitCount = level ? level.fruitCount : CONFIG.FRUIT.TARGET_COUNT;
+        this.setSize(this.width / this.depth);
+    }
+
+    /**
+     * Where each snake starts: the level's spawn point, otherwise the centre
+     * for one player, left/right for two, quadrants for three or four
+     */
+    public getSpawnPoints(): { x: number, z: number }[] {
+        if (this.level) return [this.level.spawn];
+        if (this.playerCount === 1) return [{ x: 0, z: 0 }];
+
+        const offX = this.width * CONFIG.MULTIPLAYER.SPAWN_OFFSET;
+        const offZ = this.depth * CONFIG.MULTIPLAYER.SPAWN_OFFSET;
+        if (this.playerCount === 2) return [{ x: -offX, z: 0 }, { x: offX, z: 0 }];
+
+        const quadrants = [
+            { x: -offX, z: -offZ }, { x: offX, z: -offZ },
+            { x: -offX, z: offZ }, { x: offX, z: offZ }
+        ];
+        return quadrants.slice(0, this.playerCount);
+    }
+
+    /**
+     * Clear all organisms, fruit and snake colliders and generate a fresh
+     * obstacle layout for the current size. Used when a run starts.
+     */
+    public reset() {
+        this.clearEntities();
+
+        // Drop every body (keep the engine), then rebuild walls and obstacles
+        Matter.World.clear(this.world, false);
+        Matter.Engine.clear(this.engine); // Drop stale contact pairs
+        this.wallBodies = [];
+        this.snakeBodies = [];
+        this.time = 0;
+
+        // Pools are per run: Matter orders collision pairs by body id, so bodies
+        // carried over from another run would change how a replay plays out
+        this.headBodyPool = [];
+        this.tailBodyPool = [];
+
+        this.buildWalls();
+        this.buildObstacles();
+        this.events.emit('layoutChanged');
+    }
+
+    /**
+     * Forget all organisms and fruit (their bodies are cleared by the caller)
+     */
+    private clearEntities() {
+        for (const org of this.organisms) this.events.emit('organismRemoved', org);
+        for (const f of this.fruits) this.events.emit('fruitRemoved', f);
+
+        this.organisms = [];
+        this.nextOrganismId = 0;
+        this.fruits = [];
+    }
+
+    /**
+     * Generate obstacle blocks for the current world size, or load the level's.
+     * Assumes the world has just been cleared (see reset).
+     */
+    private buildObstacles() {
+        this.obstacleBodies = [];
+        this.obstacleCells = [];
+
+        // Keep every snake's spawn coil clear
+        this.obstacleMap = new ObstacleMap(this.width, this.depth);
+        if (this.level) {
+            this.obstacleMap.load(this.level.obstacles, this.level.spawn);
+        } else {
+            this.obstacleMap.generate(this.getSpawnPoints());
+        }
+        this.fruitSpawnPoints = this.filterFruitZones(this.obstacleMap.getReachablePoints());
+
+        const cellSize = this.obstacleMap.cellSize;
+        for (const cell of this.obstacleMap.getObstacleCells()) {
+            const body = Matter.Bodies.rectangle(cell.x, cell.z, cellSize, cellSize, {
+                isStatic: true,
+                collisionFilter: { category: this.CAT_WALL },
+                label: 'obstacle'
+            });
+
+            this.obstacleBodies.push(body);
+            this.obstacleCells.push({ x: cell.x, z: cell.z, mask: cell.mask });
+        }
+
+        Matter.World.add(this.world, this.obstacleBodies);
+    }
+
+    /**
+     * Bring everything inside the current walls after a resize.
+     * Snakes and organisms are clamped in; obstacles outside the walls (or
+     * now under a snake head) and fruit outside them are removed, and the
+     * fruit spawn points are recomputed around the remaining obstacles, as
+     * everywhere at least one snake can reach.
+     */
+    private fitEntities(snakes: readonly Snake[]) {
+        const halfW = this.width / 2;
+        const halfD = this.depth / 2;
+        const clamp = (v: number, limit: number) => Math.max(-limit, Math.min(limit, v));
+
+        // Snakes
+        const r = CONFIG.SNAKE.CIRCLE_RADIUS + CONFIG.SNAKE.SAFETY_MARGIN;
+        for (const snake of snakes) snake.clampTo(halfW - r, halfD - r);
+        const heads = snakes.map(snake => snake.getHeadPosition());
+
+        // Obstacles: keep cells whose centre is still inside and that no head overlaps
+        const cellSize = this.obstacleMap.cellSize;
+        const keep = this.obstacleCells.map(cell =>
+            Math.abs(cell.x) < halfW && Math.abs(cell.z) < halfD &&
+            !heads.some(head => Math.abs(head.x - cell.x) < cellSize / 2 + r && Math.abs(head.z - cell.z) < cellSize / 2 + r)
+        );
+        Matter.World.remove(this.world, this.obstacleBodies.filter((_, i) => !keep[i]));
+        this.obstacleBodies = this.obstacleBodies.filter((_, i) => keep[i]);
+        this.obstacleCells = this.obstacleCells.filter((_, i) => keep[i]);
+        this.updateObstacleMasks();
+
+        this.obstacleMap = new ObstacleMap(this.width, this.depth);
+        this.obstacleMap.place(this.obstacleCells, heads.length > 0 ? heads : [this.getSpawnPoints()[0]]);
+        this.fruitSpawnPoints = this.filterFruitZones(this.obstacleMap.getReachablePoints());
+
+        // Organisms: move the whole blob by however far its head is out
+        const margin = 1.0;
+        for (const org of this.organisms) {
+            const pos = org.headBody.position;
+            const dx = clamp(pos.x, halfW - margin) - pos.x;
+            const dz = clamp(pos.y, halfD - margin) - pos.y;
+            if (dx === 0 && dz === 0) continue;
+
+            org.nodes.forEach((node, i) => {
+                node.pos.x += dx;
+                node.pos.z += dz;
+                node.prevPos.copy(node.pos);
+                Matter.Body.setPosition(org.segmentBodies[i], { x: node.pos.x, y: node.pos.z });
+            });
+        }
+
+        // Fruit: drop whatever no longer fits; spawning tops it back up
+        for (let i = this.fruits.length - 1; i >= 0; i--) {
+            const fruit = this.fruits[i];
+            const fr = fruit.body.circleRadius ?? 0;
+            if (Math.abs(fruit.x) <= halfW - fr && Math.abs(fruit.z) <= halfD - fr) continue;
+            Matter.World.remove(this.world, fruit.body);
+            this.fruits.splice(i, 1);
+            this.events.emit('fruitRemoved', fruit);
+        }
+    }
+
+    /**
+     * Keep the spawn points inside the level's fruit zones (all of them if
+     * the level has none, or none of the zones is reachable). Fruit can still
+     * land up to the spawn jitter past a zone edge.
+     */
+    private filterFruitZones(points: { x: number, z: number }[]): { x: number, z: number }[] {
+        const zones = this.level?.fruitZones ?? [];
+        if (zones.length === 0) return points;
+        const inside = points.filter(p => zones.some(zone => inZone(zone, p.x, p.z)));
+        return inside.length > 0 ? inside : points;
+    }
+
+    /**
+     * Recompute neighbour masks after obstacle cells were removed
+     */
+    private updateObstacleMasks() {
+        // Cell centres sit on a half-cell lattice, so these keys are exact
+        const half = this.obstacleMap.cellSize / 2;
+        const key = (x: number, z: number) => `${Math.round(x / half)},${Math.round(z / half)}`;
+        const cells = new Set(this.obstacleCells.map(cell => key(cell.x, cell.z)));
+        const size = half * 2;
+
+        for (const cell of this.obstacleCells) {
+            let mask = 0;
+            if (cells.has(key(cell.x, cell.z - size))) mask |= 1;
+            if (cells.has(key(cell.x + size, cell.z))) mask |= 2;
+            if (cells.has(key(cell.x, cell.z + size))) mask |= 4;
+            if (cells.has(key(cell.x - size, cell.z))) mask |= 8;
+            cell.mask = mask;
+        }
+    }
+
+    private tempVec3 = new THREE.Vector3();
+
+    /**
+     * One fixed simulation tick. Visuals are drawn separately (see Grid.render).
+     */
+    public update(dt: number, snakes: readonly Snake[]) {
+        this.time += dt;
+
+        // Remember where every blob was, for render interpolation
+        for (const org of this.organisms) {
+            for (const node of org.nodes) node.prevPos.copy(node.pos);
+        }
+
+        // --- 1. Physics Engine Step ---
+        Matter.Engine.update(this.engine, dt * 1000);
+
+        // --- 2. Update Snake Physics ---
+        snakes.forEach((snake, index) => this.updateSnakePhysics(index, snake.getPath(), snake.getNodeCount()));
+        const snakeHeads = snakes.map(snake => snake.getPath()[0]).filter(Boolean);
+
+        // --- 3. Organism Lifecycle ---
+        // Spawn to keep the population up; old organisms shrink away and despawn
+        if (this.organisms.length < this.organismCount) {
+            this.spawnOrganism(snakeHeads);
+        }
+
+        for (let i = this.organisms.length - 1; i >= 0; i--) {
+            const org = this.organisms[i];
+            if (!org.nodes || org.nodes.length === 0 || this.updateLifecycle(org, dt)) {
+                this.despawnOrganism(i);
+            }
+        }
+
+        // --- 4. Update Organisms (Blob Logic) ---
+        for (let i = this.organisms.length - 1; i >= 0; i--) {
+            const org = this.organisms[i];
+
+            // Steering (Change Logic to Raycast)
+            this.steerOrganism(org, snakeHeads);
+
+            // Decrement scared timer
+            if (org.scaredTimer > 0) {
+                org.scaredTimer -= dt;
+            }
+
+            // Leader Change Logic
+            org.leaderTimer -= dt;
+            if (org.leaderTimer <= 0 && org.nodes.length > 1) {
+                // Select new leader from children
+                const newLeaderIdx = 1 + Math.floor(rng.next() * (org.nodes.length - 1));
+
+                // Swap Visual/Data (Node 0 is always the 'Driver')
+                const oldLeaderNode = org.nodes[0];
+                const newLeaderNode = org.nodes[newLeaderIdx];
+
+                // Swap Pos
+                const tempPos = oldLeaderNode.pos.clone();
+                oldLeaderNode.pos.copy(newLeaderNode.pos);
+                newLeaderNode.pos.copy(tempPos);
+                tempPos.copy(oldLeaderNode.prevPos);
+                oldLeaderNode.prevPos.copy(newLeaderNode.prevPos);
+                newLeaderNode.prevPos.copy(tempPos);
+
+                // Swap Radius
+                const tempR = oldLeaderNode.r;
+                oldLeaderNode.r = newLeaderNode.r;
+                newLeaderNode.r = tempR;
+
+                // Sync Physics Bodies to new positions
+                Matter.Body.setPosition(org.headBody, { x: oldLeaderNode.pos.x, y: oldLeaderNode.pos.z });
+                Matter.Body.setPosition(org.segmentBodies[newLeaderIdx], { x: newLeaderNode.pos.x, y: newLeaderNode.pos.z });
+
+                // Reset Timer
+                const minT = CONFIG.ORGANISMS.LEADER_CHANGE_INTERVAL.MIN;
+                const maxT = CONFIG.ORGANISMS.LEADER_CHANGE_INTERVAL.MAX;
+                org.leaderTimer = minT + rng.next() * (maxT - minT);
+            }
+
+            // Sync Head Node (Node 0) with Head Body
+            const headPos = org.headBody.position;
+            org.nodes[0].pos.set(headPos.x, 0, headPos.y);
+
+            // Update Body Nodes (Soft Body / Chain Logic)
+            for (let i = 1; i < org.nodes.length; i++) {
+                const node = org.nodes[i];
+                const parent = org.nodes[node.parentIndex];
+
+                // Ideal Target Position relative to parent
+                // We want to drag it.
+                // Vector from Node to Parent
+                this.tempVec3.subVectors(parent.pos, node.pos);
+                const currentDist = this.tempVec3.length();
+
+                // Spring / Constraint (frame-rate independent)
+                if (currentDist > node.dist) {
+                    // Pull towards parent
+                    // k is stiffness per second, scale by dt
+                    const k = 10.0; // Stiffness per second
+                    const pull = (currentDist - node.dist) * k * dt;
+                    this.tempVec3.normalize().multiplyScalar(pull);
+                    node.pos.add(this.tempVec3);
+                }
+
+                // Wiggle (Bacteria-like movement) - frame-rate independent
+                // Wiggle amplitude is per second, multiply by dt
+                const wiggleSpeed = 1.5; // Units per second
+                const wiggleX = Math.sin(this.time * 4.0 + node.wigglePhase) * 0.02 * wiggleSpeed * dt;
+                const wiggleZ = Math.cos(this.time * 3.0 + node.wigglePhase) * 0.02 * wiggleSpeed * dt;
+                node.pos.x += wiggleX;
+                node.pos.z += wiggleZ;
+
+                // Sync Physics Body (Collider)
+                Matter.Body.setPosition(org.segmentBodies[i], { x: node.pos.x, y: node.pos.z });
+            }
+        }
+
+        // --- 5. Foraging: organisms eat fruit, grow and split ---
+        for (let i = this.organisms.length - 1; i >= 0; i--) {
+            this.feedOrganism(this.organisms[i]);
+        }
+
+        // --- 6. Manage Fruit ---
+        if (this.fruits.length < this.fruitCount) {
+            this.spawnFruit();
+        }
+    }
+
+    /**
+     * Advance an organism's age and appear/vanish animation.
+     * Returns true once it has fully vanished.
+     */
+    private updateLifecycle(org: Organism, dt: number): boolean {
+        const conf = CONFIG.ORGANISMS.LIFECYCLE;
+        org.age += dt;
+
+        if (org.appearing) {
+            org.scale = Math.min(1.0, org.scale + dt / conf.APPEAR_TIME);
+            if (org.scale >= 1.0) org.appearing = false;
+        }
+
+        if (!org.vanishing && org.age >= org.lifetime) {
+            org.vanishing = true;
+            org.appearing = false;
+            // Fading organisms no longer push or block anything
+            org.headBody.isSensor = true;
+        }
+
+        if (org.vanishing) {
+            org.scale -= dt / conf.VANISH_TIME;
+            return org.scale <= 0;
+        }
+        return false;
+    }
+
+    private despawnOrganism(index: number) {
+        const org = this.organisms[index];
+        this.organisms.splice(index, 1);
+        Matter.World.remove(this.world, org.segmentBodies);
+        this.releaseBodies(org);
+        this.events.emit('organismRemoved', org);
+    }
+
+    /**
+     * Return an organism's bodies to the pools (already removed from the Matter world)
+     */
+    private releaseBodies(org: Organism) {
+        for (const body of org.segmentBodies) this.bodyOrganism.delete(body);
+        this.headBodyPool.push(org.headBody);
+        this.tailBodyPool.push(...org.segmentBodies.slice(1));
+    }
+
+    private acquireHeadBody(x: number, z: number): Matter.Body {
+        const body = this.headBodyPool.pop();
+        if (!body) {
+            return Matter.Bodies.circle(x, z, 0.6, {
+                frictionAir: 0,
+                friction: 0,
+                restitution: 0,
+                inertia: Infinity,
+                collisionFilter: { category: this.CAT_ORGANISM },
+                label: 'org_head'
+            });
+        }
+
+        body.isSensor = false;
+        Matter.Body.setPosition(body, { x, y: z });
+        Matter.Body.setVelocity(body, { x: 0, y: 0 });
+        body.force.x = 0;
+        body.force.y = 0;
+        return body;
+    }
+
+    private acquireTailBody(x: number, z: number, radius: number): Matter.Body {
+        const body = this.tailBodyPool.pop();
+        if (!body) {
+            // Sensor body for one blob part
+            return Matter.Bodies.circle(x, z, radius, {
+                isSensor: true,
+                isStatic: true, // They drag with visuals
+                collisionFilter: {
+                    category: this.CAT_ORGANISM,
+                    mask: this.CAT_SNAKE | this.CAT_WALL
+                },
+                label: 'org_tail'
+            });
+        }
+
+        const factor = radius / body.circleRadius!;
+        Matter.Body.scale(body, factor, factor);
+        Matter.Body.setPosition(body, { x, y: z });
+        return body;
+    }
+
+    private updateSnakePhysics(snake: number, snakePath: THREE.Vector3[], nodeCount: number) {
+        // Pool Management for Snake Bodies
+        // We represent each snake path as a series of circles matching visual nodes
+        const pool = this.snakeBodies[snake] ?? (this.snakeBodies[snake] = []);
+
+        const r = CONFIG.SNAKE.CIRCLE_RADIUS;
+        const separation = CONFIG.SNAKE.NODE_SPACING; // Match visual node spacing
+
+        let bodyIdx = 0;
+
+        if (snakePath.length > 0) {
+            let lastPos = snakePath[0];
+
+            // Add/Update Head Body
+            this.ensureSnakeBody(snake, bodyIdx, lastPos.x, lastPos.z, r);
+            bodyIdx++;
+
+            // Walk path - create collision body for each visual node
+            // The pool grows with the snake: one body per node plus the head
+            // (the path itself runs slightly past the tail, see Snake)
+            const maxBodies = nodeCount + 1;
+            for (let i = 1; i < snakePath.length && bodyIdx < maxBodies; i++) {
+                const p = snakePath[i];
+                if (p.distanceTo(lastPos) >= separation) {
+                    this.ensureSnakeBody(snake, bodyIdx, p.x, p.z, r);
+                    bodyIdx++;
+                    lastPos = p;
+                }
+            }
+        }
+
+        // Hide/Remove unused bodies
+        for (let i = bodyIdx; i < pool.length; i++) {
+            Matter.Body.setPosition(pool[i], { x: 9999, y: 9999 }); // Move away
+        }
+    }
+
+    private ensureSnakeBody(snake: number, index: number, x: number, z: number, r: number) {
+        const pool = this.snakeBodies[snake];
+        if (index >= pool.length) {
+            // Create new
+            const body = Matter.Bodies.circle(x, z, r, {
+                isStatic: true, // Snake acts as static obstacle for organisms (they steer around it)
+                // But wait, organisms push against it? 
+                // User said "snake can go through them". 
+                // If snake is static, organisms will bounce off it.
+                collisionFilter: {
+                    category: this.CAT_SNAKE,
+                },
+                label: 'snake'
+            });
+            Matter.World.add(this.world, body);
+            this.snakeOwner.set(body, snake);
+            pool.push(body);
+        } else {
+            // Update existing
+            Matter.Body.setPosition(pool[index], { x, y: z });
+        }
+    }
+
+    /**
+     * Scare organisms near a position - makes them flee. Returns how many were scared.
+     */
+    public scareOrganisms(x: number, z: number, radius: number = CONFIG.ORGANISMS.SCARE.RADIUS): number {
+        const scareConfig = CONFIG.ORGANISMS.SCARE;
+        let scared = 0;
+
+        for (const org of this.organisms) {
+            const pos = org.headBody.position;
+            const dx = pos.x - x;
+            const dz = pos.y - z; // Matter.js y = world z
+            const distSq = dx * dx + dz * dz;
+
+            if (distSq < radius * radius) {
+                // Calculate flee angle (away from scare point)
+                const fleeAngle = Math.atan2(dz, dx);
+                org.angle = fleeAngle;
+
+                // Set scared timer - organism will move fast for this duration
+                org.scaredTimer = scareConfig.DURATION;
+
+                // Boost speed temporarily by setting high velocity
+                const fleeSpeed = org.speed * scareConfig.SPEED_MULTIPLIER;
+                const vx = Math.cos(org.angle) * fleeSpeed;
+                const vz = Math.sin(org.angle) * fleeSpeed;
+                Matter.Body.setVelocity(org.headBody, { x: vx, y: vz });
+                scared++;
+            }
+        }
+        return scared;
+    }
+
+    private steerOrganism(org: Organism, snakeHeads: THREE.Vector3[]) {
+        const rayStart = org.headBody.position;
+
+        // Snake head avoidance - if a snake is nearby, flee from the closest one!
+        const avoidRadius = 4.0; // Distance at which organisms start avoiding snake
+        const fleeRadius = 2.0;  // Distance at which organisms strongly flee
+
+        let snakeHead: THREE.Vector3 | null = null;
+        let closestSq = Infinity;
+        for (const head of snakeHeads) {
+            const dx = rayStart.x - head.x;
+            const dz = rayStart.y - head.z;
+            if (dx * dx + dz * dz < closestSq) {
+                closestSq = dx * dx + dz * dz;
+                snakeHead = head;
+            }
+        }
+
+        if (snakeHead) {
+            const dx = rayStart.x - snakeHead.x;
+            const dz = rayStart.y - snakeHead.z; // Matter.js y = world z
+            const distSq = dx * dx + dz * dz;
+
+            if (distSq < avoidRadius * avoidRadius) {
+                // Calculate flee angle (away from snake)
+                const fleeAngle = Math.atan2(dz, dx);
+                const dist = Math.sqrt(distSq);
+
+                if (dist < fleeRadius) {
+                    // Strong flee - directly away from snake
+                    org.angle = fleeAngle;
+                    // Move faster when fleeing
+                    const fleeSpeed = org.speed * 2.5;
+                    const vx = Math.cos(org.angle) * fleeSpeed;
+                    const vz = Math.sin(org.angle) * fleeSpeed;
+                    Matter.Body.setVelocity(org.headBody, { x: vx, y: vz });
+                    return; // Skip normal steering
+                } else {
+                    // Moderate avoidance - blend flee angle with current direction
+                    const blendFactor = 1.0 - (dist - fleeRadius) / (avoidRadius - fleeRadius);
+                    org.angle = org.angle + (fleeAngle - org.angle) * blendFactor * 0.3;
+                }
+            }
+        }
+
+        // Foraging - turn toward the nearest fruit in sensing range
+        const fruit = org.scaredTimer > 0 ? null : this.findNearestFruit(rayStart.x, rayStart.y);
+        if (fruit) {
+            const targetAngle = Math.atan2(fruit.z - rayStart.y, fruit.x - rayStart.x);
+            // Shortest way round
+            const diff = Math.atan2(Math.sin(targetAngle - org.angle), Math.cos(targetAngle - org.angle));
+            org.angle += diff * CONFIG.ORGANISMS.FORAGE.TURN_RATE;
+        }
+
+        // Raycast parameters
+        const lookAhead = 4.0;
+        const rayWidth = 0.5; // Narrower ray to avoid clipping self-edges
+
+        // Filter Obstacles (Exclude Self, and fruit, which is food rather than an obstacle)
+        const allBodies = Matter.Composite.allBodies(this.world);
+        const obstacles = allBodies.filter(b =>
+            b !== org.headBody &&
+            b.label !== 'fruit' &&
+            !org.segmentBodies.includes(b)
+        );
+
+        const rayEnd = {
+            x: rayStart.x + Math.cos(org.angle) * lookAhead,
+            y: rayStart.y + Math.sin(org.angle) * lookAhead
+        };
+
+        const collisions = Matter.Query.ray(obstacles, rayStart, rayEnd, rayWidth);
+        const hit = collisions.length > 0;
+
+        if (hit) {
+            // Blocked, turn
+            org.angle += (rng.next() < 0.5 ? 1 : -1) * (Math.PI / 2);
+        } else if (!fruit) {
+            // Clear, Wander
+            org.angle += (rng.next() - 0.5) * 0.1; // Reduced wander jitter
+        }
+
+        // Apply Velocity
+        // Velocity in Matter.js is per-update. 
+        // We set it directly to control movement precisely.
+        // Use higher speed if scared
+        const speedMultiplier = org.scaredTimer > 0 ? CONFIG.ORGANISMS.SCARE.SPEED_MULTIPLIER : 1.0;
+        const vx = Math.cos(org.angle) * org.speed * speedMultiplier;
+        const vz = Math.sin(org.angle) * org.speed * speedMultiplier;
+
+        Matter.Body.setVelocity(org.headBody, { x: vx, y: vz });
+    }
+
+    private findNearestFruit(x: number, z: number): Fruit | null {
+        const range = CONFIG.ORGANISMS.FORAGE.SENSE_RADIUS;
+        let nearest: Fruit | null = null;
+        let nearestSq = range * range;
+        for (const fruit of this.fruits) {
+            const dx = fruit.x - x;
+            const dz = fruit.z - z;
+            const distSq = dx * dx + dz * dz;
+            if (distSq < nearestSq) {
+                nearestSq = distSq;
+                nearest = fruit;
+            }
+        }
+        return nearest;
+    }
+
+    /**
+     * Let a fully grown-in organism eat fruit under its head: it gains a blob,
+     * and past the split threshold divides in two
+     */
+    private feedOrganism(org: Organism) {
+        if (org.appearing || org.vanishing) return;
+
+        const head = org.headBody.position;
+        if (this.takeFruitAt(head.x, head.y, org.nodes[0].r) === null) return;
+
+        const conf = CONFIG.ORGANISMS.FORAGE;
+        if (org.nodes.length < conf.MAX_BLOBS) this.growOrganism(org);
+        if (org.nodes.length >= conf.SPLIT_AT && this.organisms.length < conf.MAX_POPULATION) {
+            this.splitOrganism(org);
+        }
+    }
+
+    /**
+     * Add one blob around the head (all blobs hang off node 0, as in spawnOrganism)
+     */
+    private growOrganism(org: Organism) {
+        const conf = CONFIG.ORGANISMS;
+        const parent = org.nodes[0];
+
+        const angle = rng.next() * Math.PI * 2;
+        const dist = conf.SPACING.MIN + rng.next() * (conf.SPACING.MAX - conf.SPACING.MIN);
+        const nx = parent.pos.x + Math.cos(angle) * dist;
+        const nz = parent.pos.z + Math.sin(angle) * dist;
+        const r = conf.RADIUS.MIN + rng.next() * (conf.RADIUS.MAX - conf.RADIUS.MIN);
+
+        org.nodes.push({
+            pos: new THREE.Vector3(nx, 0, nz),
+            prevPos: new THREE.Vector3(nx, 0, nz),
+            r,
+            parentIndex: 0,
+            dist,
+            wigglePhase: rng.next() * 10,
+            hasEye: false
+        });
+
+        const body = this.acquireTailBody(nx, nz, r * 0.7);
+        Matter.World.add(this.world, body);
+        org.segmentBodies.push(body);
+        this.bodyOrganism.set(body, org);
+    }
+
+    /**
+     * Divide an organism: the second half of its blobs leave as a new organism,
+     * the first of them becoming its head. The two swim off in opposite directions.
+     */
+    private splitOrganism(org: Organism) {
+        const conf = CONFIG.ORGANISMS;
+        const half = Math.floor((org.nodes.length - 1) / 2);
+        const nodes = org.nodes.splice(org.nodes.length - half);
+        const tailBodies = org.segmentBodies.splice(org.segmentBodies.length - half);
+
+        // The new head gets a driver body in place of its tail sensor
+        const head = nodes[0];
+        Matter.World.remove(this.world, tailBodies[0]);
+        this.bodyOrganism.delete(tailBodies[0]);
+        this.tailBodyPool.push(tailBodies[0]);
+        const headBody = this.acquireHeadBody(head.pos.x, head.pos.z);
+        Matter.World.add(this.world, headBody);
+
+        head.parentIndex = -1;
+        head.dist = 0;
+        for (let i = 1; i < nodes.length; i++) {
+            nodes[i].parentIndex = 0;
+            nodes[i].dist = Math.max(conf.SPACING.MIN, nodes[i].pos.distanceTo(head.pos));
+        }
+        // Both halves keep at least one eye
+        if (!nodes.some(n => n.hasEye)) head.hasEye = true;
+        if (!org.nodes.some(n => n.hasEye)) org.nodes[0].hasEye = true;
+
+        const minT = conf.LEADER_CHANGE_INTERVAL.MIN;
+        const maxT = conf.LEADER_CHANGE_INTERVAL.MAX;
+        const minL = conf.LIFECYCLE.LIFETIME.MIN;
+        const maxL = conf.LIFECYCLE.LIFETIME.MAX;
+        const hsl = { h: 0, s: 0, l: 0 };
+        org.color.getHSL(hsl);
+
+        const child: Organism = {
+            id: this.nextOrganismId++,
+            headBody,
+            segmentBodies: [headBody, ...tailBodies.slice(1)],
+            nodes,
+            angle: org.angle - Math.PI / 2,
+            speed: org.speed,
+            scaredTimer: 0,
+            appearing: false,
+            vanishing: false,
+            scale: 1.0,
+            age: 0,
+            lifetime: minL + rng.next() * (maxL - minL),
+            color: new THREE.Color().setHSL((hsl.h + (rng.next() - 0.5) * 0.1 + 1) % 1, hsl.s, hsl.l),
+            leaderTimer: minT + rng.next() * (maxT - minT)
+        };
+        org.angle += Math.PI / 2;
+
+        for (const body of child.segmentBodies) this.bodyOrganism.set(body, child);
+        this.organisms.push(child);
+        this.events.emit('organismAdded', child);
+    }
+
+    private spawnOrganism(snakeHeads: THREE.Vector3[]) {
+        for (let attempt = 0; attempt < 10; attempt++) {
+            const { x: rx, z: rz } = this.pickOrganismSpot();
+
+            // Check clearance 
+            const spot = new THREE.Vector3(rx, 0, rz);
+            if (snakeHeads.some(head => head.distanceTo(spot) < 8)) continue;
+
+            // Never spawn inside (or wedged against) an obstacle
+            if (this.isNearObstacle(rx, rz, 1.5)) continue;
+
+            const conf = CONFIG.ORGANISMS;
+
+            // 1. Head Body (Driver)
+            const headBody = this.acquireHeadBody(rx, rz);
+            Matter.World.add(this.world, headBody);
+
+            // 2. Generate Blob Nodes
+            const nodes: BlobNode[] = [];
+            const segmentBodies: Matter.Body[] = [];
+
+            // Head Node
+            const count = conf.BLOB_COUNT.MIN + Math.floor(rng.next() * (conf.BLOB_COUNT.MAX - conf.BLOB_COUNT.MIN + 1));
+            const headR = conf.RADIUS.MIN + rng.next() * (conf.RADIUS.MAX - conf.RADIUS.MIN);
+
+            const headNode: BlobNode = {
+                pos: new THREE.Vector3(rx, 0, rz),
+                prevPos: new THREE.Vector3(rx, 0, rz),
+                r: headR,
+                parentIndex: -1,
+                dist: 0,
+                wigglePhase: rng.next() * 10,
+                hasEye: false
+            };
+            nodes.push(headNode);
+            segmentBodies.push(headBody);
+
+            // 3. Child Nodes
+            for (let i = 0; i < count; i++) {
+                const parentIdx = 0;
+                const parent = nodes[parentIdx];
+
+                const angle = (i / count) * Math.PI * 2 + (rng.next() - 0.5);
+                const dist = conf.SPACING.MIN + rng.next() * (conf.SPACING.MAX - conf.SPACING.MIN);
+
+                const nx = parent.pos.x + Math.cos(angle) * dist;
+                const nz = parent.pos.z + Math.sin(angle) * dist;
+                const r = conf.RADIUS.MIN + rng.next() * (conf.RADIUS.MAX - conf.RADIUS.MIN);
+
+                nodes.push({
+                    pos: new THREE.Vector3(nx, 0, nz),
+                    prevPos: new THREE.Vector3(nx, 0, nz),
+                    r: r,
+                    parentIndex: parentIdx,
+                    dist: dist,
+                    wigglePhase: rng.next() * 10,
+                    hasEye: false
+                });
+
+                // Sensor Body for this blob part
+                const body = this.acquireTailBody(nx, nz, r * 0.7);
+                Matter.World.add(this.world, body);
+                segmentBodies.push(body);
+            }
+
+            // --- Assign Eyes ---
+            const totalNodes = nodes.length;
+            const eyeMin = conf.EYE_COUNT.MIN;
+            const eyeMax = Math.min(conf.EYE_COUNT.MAX, totalNodes); // Cannot have more eyes than nodes
+            const numEyes = eyeMin + Math.floor(rng.next() * (eyeMax - eyeMin + 1));
+
+            // Create array of indices [0, 1, 2, ... totalNodes-1]
+            const indices = Array.from({ length: totalNodes }, (_, i) => i);
+
+            // Shuffle indices (Fisher-Yates)
+            for (let i = indices.length - 1; i > 0; i--) {
+                const j = Math.floor(rng.next() * (i + 1));
+                [indices[i], indices[j]] = [indices[j], indices[i]];
+            }
+
+            // Assign eyes to the first 'numEyes' indices
+            for (let i = 0; i < numEyes; i++) {
+                nodes[indices[i]].hasEye = true;
+            }
+
+            const speed = conf.SPEED.MIN + rng.next() * (conf.SPEED.MAX - conf.SPEED.MIN);
+            const minT = conf.LEADER_CHANGE_INTERVAL.MIN;
+            const maxT = conf.LEADER_CHANGE_INTERVAL.MAX;
+            const minL = conf.LIFECYCLE.LIFETIME.MIN;
+            const maxL = conf.LIFECYCLE.LIFETIME.MAX;
+
+            const org: Organism = {
+                id: this.nextOrganismId++,
+                headBody: headBody,
+                segmentBodies: segmentBodies,
+                nodes: nodes,
+                angle: rng.next() * Math.PI * 2,
+                speed: speed,
+                scaredTimer: 0,
+                appearing: true,
+                vanishing: false,
+                scale: 0.0,
+                age: 0,
+                lifetime: minL + rng.next() * (maxL - minL),
+                color: new THREE.Color().setHSL(rng.next(), 0.6, 0.4),
+                leaderTimer: minT + rng.next() * (maxT - minT)
+            };
+            for (const body of segmentBodies) this.bodyOrganism.set(body, org);
+            this.organisms.push(org);
+            this.events.emit('organismAdded', org);
+            return;
+        }
+    }
+
+    /**
+     * Random spawn candidate: inside one of the level's organism zones, else anywhere
+     * away from the walls
+     */
+    private pickOrganismSpot(): { x: number, z: number } {
+        const zones = this.level?.organisms.zones ?? [];
+        if (zones.length === 0) {
+            return {
+                x: (rng.next() - 0.5) * (this.width - 6),
+                z: (rng.next() - 0.5) * (this.depth - 6)
+            };
+        }
+
+        const zone = zones[Math.floor(rng.next() * zones.length)];
+        return {
+            x: zone.x + (rng.next() - 0.5) * zone.width,
+            z: zone.z + (rng.next() - 0.5) * zone.depth
+        };
+    }
+
+    private spawnFruit() {
+        const sizeCells = CONFIG.FRUIT.SIZE_CELLS;
+        // Random spot
+        if (this.fruitSpawnPoints.length === 0) return;
+
+        // Random spot the snake can reach (see ObstacleMap), jittered within
+        // the range the head can still cover inside its 2x2 window
+        const jitter = this.obstacleMap.cellSize - (CONFIG.SNAKE.CIRCLE_RADIUS + CONFIG.SNAKE.SAFETY_MARGIN);
+        for (let i = 0; i < 10; i++) {
+            const point = this.fruitSpawnPoints[Math.floor(rng.next() * this.fruitSpawnPoints.length)];
+            const rx = point.x + (rng.next() * 2 - 1) * jitter;
+            const rz = point.z + (rng.next() * 2 - 1) * jitter;
+
+            // Create Sensor Body
+            const r = 0.5;
+            const bodies = Matter.Query.region(Matter.Composite.allBodies(this.world), {
+                min: { x: rx - r, y: rz - r },
+                max: { x: rx + r, y: rz + r }
+            });
+            if (bodies.length > 0) continue;
+
+            const type = this.pickFruitType();
+            const scale = sizeCells * CONFIG.GRID.CELL_SIZE * 0.8;
+
+            const body = Matter.Bodies.circle(rx, rz, 0.5 * scale, {
+                isSensor: true, // Fruits are sensors
+                isStatic: true,
+                collisionFilter: { category: this.CAT_FRUIT },
+                label: 'fruit'
+            });
+            Matter.World.add(this.world, body);
+
+            const fruit: Fruit = { x: rx, z: rz, type, body };
+            this.fruits.push(fruit);
+            this.events.emit('fruitAdded', fruit);
+            return;
+        }
+    }
+
+    /**
+     * Weighted pick from CONFIG.FRUIT.SPAWN_WEIGHTS
+     */
+    private pickFruitType(): FruitType {
+        const weights = CONFIG.FRUIT.SPAWN_WEIGHTS;
+        const total = weights.reduce((sum, w) => sum + w, 0);
+        let roll = rng.next() * total;
+        for (let type = 0; type < weights.length; type++) {
+            roll -= weights[type];
+            if (roll < 0) return type as FruitType;
+        }
+        return (weights.length - 1) as FruitType;
+    }
+
+    /**
+     * Draw fruit within radius toward a point (magnet power-up)
+     */
+    public pullFruit(x: number, z: number, radius: number, step: number) {
+        for (const fruit of this.fruits) {
+            const dx = x - fruit.x;
+            const dz = z - fruit.z;
+            const dist = Math.sqrt(dx * dx + dz * dz);
+            if (dist >= radius || dist < 0.0001) continue;
+
+            const move = Math.min(step, dist);
+            fruit.x += dx / dist * move;
+            fruit.z += dz / dist * move;
+            Matter.Body.setPosition(fruit.body, { x: fruit.x, y: fruit.z });
+        }
+    }
+
+    private isNearObstacle(x: number, z: number, radius: number): boolean {
+        const bodies = Matter.Query.region(this.obstacleBodies, {
+            min: { x: x - radius, y: z - radius },
+            max: { x: x + radius, y: z + radius }
+        });
+        return bodies.length > 0;
+    }
+
+    /**
+     * Total blob radius; compared against a snake's edible size
+     */
+    private getOrganismSize(org: Organism): number {
+        return org.nodes.reduce((sum, node) => sum + node.r, 0);
+    }
+
+    /**
+     * Organism bodies a snake head passes through: organisms on their way
+     * out, and ones smaller than passableSize (edible, or Infinity for ghost mode)
+     */
+    private isPassableOrganismBody(b: Matter.Body, passableSize: number): boolean {
+        const org = this.bodyOrganism.get(b);
+        return !!org && (org.vanishing || this.getOrganismSize(org) < passableSize);
+    }
+
+    /**
+     * Eat the first organism smaller than edibleSize that touches the head circle
+     */
+    public eatOrganismAt(x: number, z: number, radius: number, edibleSize: number): EatenOrganism | null {
+        for (let i = 0; i < this.organisms.length; i++) {
+            const org = this.organisms[i];
+            if (org.vanishing || this.getOrganismSize(org) >= edibleSize) continue;
+
+            const touching = org.segmentBodies.some(b => {
+                const dx = x - b.position.x;
+                const dz = z - b.position.y;
+                const minDist = radius + (b.circleRadius || 0);
+                return dx * dx + dz * dz < minDist * minDist;
+            });
+            if (!touching) continue;
+
+            const centre = this.getOrganismCentre(org);
+            this.despawnOrganism(i);
+            return { x: centre.x, z: centre.z, blobs: org.nodes.length, color: org.color };
+        }
+        return null;
+    }
+
+    // --- Public API for Snake Movement (Raycast) ---
+    /**
+     * snake: index of the snake asking; its own colliders never block it,
+     * every other snake's do. Organisms below passableSize do not block either.
+     */
+    public isPositionBlocked(x: number, z: number, radius: number, snake: number = 0, passableSize: number = 0): boolean {
+        // Create a temporary body check? 
+        // Or just Query.region or Query.collides
+        // User asked for Raycast? 
+        // But block check is usually volumetric.
+        // "Raycast for determining if movement is possible in a given direction"
+        // Game.ts calls isPositionBlocked(x, z). 
+        // This checks if the target circle is blocked.
+
+        const bodies = Matter.Composite.allBodies(this.world);
+
+        // Simple circle overlap check against all static/relevant bodies
+        // Matter does not expose a direct 'CheckCircle' easily without creating a body.
+
+        // Visualization of this check? (Red circle?)
+
+        // Bounds check
+        const halfW = this.width / 2;
+        const halfD = this.depth / 2;
+        if (x < -halfW + radius || x > halfW - radius || z < -halfD + radius || z > halfD - radius) return true;
+
+        // Check Bodies
+        for (const b of bodies) {
+            if (b.label === 'snake' && this.snakeOwner.get(b) === snake) continue; // Don't collide with self
+            if (b.label === 'fruit') continue; // Fruits don't block
+            if (this.isPassableOrganismBody(b, passableSize)) continue; // Nor do fading or edible organisms
+
+            // Check Circle vs Body (Polygon/Circle)
+            // Matter.SAT?
+            // Simple bounds or distance check for circles is fast.
+            if (b.circleRadius) {
+                const dx = x - b.position.x;
+                const dy = z - b.position.y;
+                const dist = Math.sqrt(dx * dx + dy * dy);
+                if (dist < (radius + b.circleRadius)) return true;
+            } else {
+                // Rectangle (Wall)
+                // AABB?
+                if (Matter.Bounds.overlaps(b.bounds, {
+                    min: { x: x - radius, y: z - radius },
+                    max: { x: x + radius, y: z + radius }
+                })) return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * Check what the snake head would hit at a position (classic mode).
+     * The first few snake bodies behind the head (the neck) are ignored,
+     * since they always overlap the head. Organisms below passableSize are no danger.
+     */
+    public getHeadCollision(x: number, z: number, radius: number, neckSkip: number, snake: number = 0, passableSize: number = 0): HeadCollision {
+        const hits = (b: Matter.Body) => {
+            const dx = x - b.position.x;
+            const dz = z - b.position.y;
+            const minDist = radius + (b.circleRadius || 0);
+            return dx * dx + dz * dz < minDist * minDist;
+        };
+
+        // Own body (pool[0] is the head itself)
+        const own = this.snakeBodies[snake] ?? [];
+        for (let i = 1 + neckSkip; i < own.length; i++) {
+            if (hits(own[i])) return 'self';
+        }
+
+        // Other snakes, head included
+        for (let other = 0; other < this.snakeBodies.length; other++) {
+            if (other === snake) continue;
+            if (this.snakeBodies[other].some(hits)) return 'snake';
+        }
+
+        // Organisms (head driver and tail sensors)
+        const bodies = Matter.Composite.allBodies(this.world);
+        for (const b of bodies) {
+            if (b.label !== 'org_head' && b.label !== 'org_tail') continue;
+            if (this.isPassableOrganismBody(b, passableSize)) continue;
+            if (hits(b)) return 'organism';
+        }
+
+        return null;
+    }
+
+    /**
+     * Returns the type of the fruit eaten, or null if none was in reach
+     */
+    public handleFruitCollection(x: number, z: number, radius: number): FruitType | null {
+        return this.takeFruitAt(x, z, radius);
+    }
+
+    /**
+     * Remove the first fruit within reach of a circle (snake head or organism)
+     */
+    private takeFruitAt(x: number, z: number, radius: number): FruitType | null {
+        // Check fruits
+        for (let i = 0; i < this.fruits.length; i++) {
+            const f = this.fruits[i];
+            const dx = x - f.x;
+            const dz = z - f.z;
+            if (dx * dx + dz * dz < (radius + 0.5) ** 2) {
+                // Collected
+                Matter.World.remove(this.world, f.body);
+                this.fruits.splice(i, 1);
+                this.events.emit('fruitRemoved', f);
+                return f.type;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Number of organisms currently fleeing from a scare
+     */
+    public getScaredOrganismCount(): number {
+        return this.organisms.filter(org => org.scaredTimer > 0).length;
+    }
+
+    /**
+     * Get organism positions for background rendering
+     * Returns center of mass of all nodes for proper trail effect
+     */
+    public getOrganismPositions(): { x: number, z: number, radius: number }[] {
+        return this.organisms.map(org => this.getOrganismCentre(org));
+    }
+
+    private getOrganismCentre(org: Organism): { x: number, z: number, radius: number } {
+        // Calculate center of mass of all nodes
+        let sumX = 0, sumZ = 0, maxRadius = 0;
+        for (const node of org.nodes) {
+            sumX += node.pos.x;
+            sumZ += node.pos.z;
+            maxRadius = Math.max(maxRadius, node.r);
+        }
+        const count = org.nodes.length || 1;
+        return {
+            x: sumX / count,
+            z: sumZ / count,
+            radius: maxRadius
+        };
+    }
+
+    /**
+     * Get fruit positions for background rendering
+     */
+    public getFruitPositions(): { x: number, z: number }[] {
+        return this.fruits.map(f => ({ x: f.x, z: f.z }));
+    }
+
+    /**
+     * Get world bounds
+     */
+    public getWorldBounds(): { width: number, depth: number } {
+        return { width: this.width, depth: this.depth };
+    }
+
+    public getOrganisms(): readonly Organism[] {
+        return this.organisms;
+    }
+
+    public getFruits(): readonly Fruit[] {
+        return this.fruits;
+    }
+
+    public getObstacleCells(): readonly ObstacleCell[] {
+        return this.obstacleCells;
+    }
+
+    /**
+     * Every Matter body in the world (debug rendering)
+     */
+    public getBodies(): Matter.Body[] {
+        return Matter.Composite.allBodies(this.world);
+    }
+
+}
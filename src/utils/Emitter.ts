@@ -0,0 +1,31 @@
+/**
+ * Minimal typed event emitter.
+ * Events maps each event name to its listener argument tuple.
+ */
+export class Emitter<Events extends Record<string, unknown[]>> {
+    private listeners: { [K in keyof Events]?: ((...args: Events[K]) => void)[] } = {};
+
+    /**
+     * Subscribe to an event. Returns an unsubscribe function.
+     */
+    public on<K extends keyof Events>(name: K, listener: (...args: Events[K]) => void): () => void {
+        const list = this.listeners[name] ?? (this.listeners[name] = []);
+        list.push(listener);
+        return () => {
+            const index = list.indexOf(listener);
+            if (index >= 0) list.splice(index, 1);
+        };
+    }
+
+    public emit<K extends keyof Events>(name: K, ...args: Events[K]) {
+        const list = this.listeners[name];
+        if (!list) return;
+        for (const listener of list.slice()) {
+            listener(...args);
+        }
+    }
+
+    public clear() {
+        this.listeners = {};
+    }
+}
@@ -0,0 +1,23 @@
+/**
+ * Type guards for checking parsed JSON (levels, replays, saved settings, sound
+ * packs, particle effects) before it is trusted as typed data.
+ */
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Finite number (rejects NaN and Infinity)
+ */
+export function isNumber(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value);
+}
+
+export function isInteger(value: unknown): value is number {
+    return Number.isInteger(value);
+}
+
+export function isArrayOf<T>(value: unknown, guard: (item: unknown) => item is T): value is T[] {
+    return Array.isArray(value) && value.every(item => guard(item));
+}
@@ -0,0 +1,102 @@
+/**
+ * Seedable pseudo-random number generator (mulberry32).
+ * Drop-in replacement for Math.random() via next().
+ */
+export class Random {
+    private state: number = 0;
+
+    constructor(seed: number) {
+        this.reseed(seed);
+    }
+
+    public reseed(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * Uniform float in [0, 1)
+     */
+    public next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+}
+
+/**
+ * Central random service.
+ * Every subsystem draws from its own named stream, all derived from one seed,
+ * so e.g. particle effects never shift world generation. The seed can be set
+ * with ?seed=<number or text> in the URL.
+ */
+export class RNG {
+    private static seed: number = RNG.readSeed();
+    private static streams: Map<string, Random> = new Map();
+
+    private static readSeed(): number {
+        // No URL outside the browser (headless runs call setSeed instead)
+        const param = typeof window !== 'undefined'
+            ? new URLSearchParams(window.location.search).get('seed')
+            : null;
+        return param !== null ? RNG.parseSeed(param) : Math.floor(Math.random() * 0xFFFFFFFF);
+    }
+
+    /**
+     * Numeric seeds are used as-is, anything else is hashed
+     */
+    public static parseSeed(value: string): number {
+        if (/^\d+$/.test(value)) return Number(value) >>> 0;
+        return RNG.hash(value);
+    }
+
+    public static getSeed(): number {
+        return RNG.seed;
+    }
+
+    /**
+     * Change the seed and rewind every existing stream
+     */
+    public static setSeed(seed: number) {
+        RNG.seed = seed >>> 0;
+        for (const [name, stream] of RNG.streams) {
+            stream.reseed(RNG.deriveSeed(name));
+        }
+    }
+
+    /**
+     * Persistent stream for a subsystem. The same object is returned on
+     * every call, so modules can hold on to it.
+     */
+    public static stream(name: string): Random {
+        let stream = RNG.streams.get(name);
+        if (!stream) {
+            stream = new Random(RNG.deriveSeed(name));
+            RNG.streams.set(name, stream);
+        }
+        return stream;
+    }
+
+    /**
+     * Fresh generator starting from the beginning of a named sequence.
+     * Use for one-shot generation that must be repeatable (e.g. level layout).
+     */
+    public static fork(name: string): Random {
+        return new Random(RNG.deriveSeed(name));
+    }
+
+    private static deriveSeed(name: string): number {
+        return RNG.hash(`${RNG.seed}:${name}`);
+    }
+
+    // FNV-1a
+    private static hash(value: string): number {
+        let h = 0x811C9DC5;
+        for (let i = 0; i < value.length; i++) {
+            h ^= value.charCodeAt(i);
+            h = Math.imul(h, 0x01000193);
+        }
+        return h >>> 0;
+    }
+}
@@ -1,5 +1,8 @@
 
 import * as THREE from 'three';
+import { RNG } from './Random';
+
+const rng = RNG.stream('textures');
 
 export class TextureGenerator {
     /**
@@ -29,7 +32,7 @@ export class TextureGenerator {
 
             data[stride] = val;     // R: Primary Noise
             data[stride + 1] = this.seamlessNoise(nx, ny, 10.0) * 0.5 + 0.5; // G: High frequency
-            data[stride + 2] = Math.random(); // B: White noise
+            data[stride + 2] = rng.next(); // B: White noise
             data[stride + 3] = 1.0; // A
         }
 
@@ -0,0 +1,84 @@
+/**
+ * Replay recording and playback, without a running game.
+ *
+ *   bun test
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { ReplayPlayer, ReplayRecorder, parseReplay, serializeReplay } from '../src/game/Replay';
+import type { TickInput } from '../src/game/Simulation';
+
+function steer(x: number, y: number): TickInput {
+    return { direction: { x, y }, buttonEffect: null };
+}
+
+/**
+ * Aspect applied before each tick of a playback, null where none was due
+ */
+function playResizes(player: ReplayPlayer): (number | null)[] {
+    const applied: (number | null)[] = [];
+    for (;;) {
+        const aspect = player.takeResize();
+        if (!player.next()) break;
+        applied.push(aspect);
+    }
+    return applied;
+}
+
+describe('resizes', () => {
+    test('two resizes in one tick play back as the last one', () => {
+        const recorder = new ReplayRecorder(1, false, 1, 1.5);
+        recorder.record([steer(1, 0)]);
+        recorder.recordResize(1.2);
+        recorder.recordResize(1.8);
+        recorder.record([steer(1, 0)]);
+        recorder.record([steer(0, 1)]);
+        recorder.recordResize(1.4);
+        recorder.record([steer(0, 1)]);
+
+        expect(recorder.getData().resizes).toEqual([[1, 1.8], [3, 1.4]]);
+        expect(playResizes(new ReplayPlayer(recorder.getData()))).toEqual([null, 1.8, null, 1.4]);
+    });
+
+    test('entries sharing a tick are all consumed, so later resizes still apply', () => {
+        const recorder = new ReplayRecorder(1, false, 1, 1.5);
+        for (let i = 0; i < 4; i++) recorder.record([steer(0, 0)]);
+        const data = { ...recorder.getData(), resizes: [[1, 1.2], [1, 1.8], [2, 1.4]] as [number, number][] };
+
+        expect(playResizes(new ReplayPlayer(data))).toEqual([null, 1.8, 1.4, null]);
+    });
+});
+
+describe('replay files', () => {
+    function recording(): ReplayRecorder {
+        const recorder = new ReplayRecorder(42, true, 2, 1.5);
+        recorder.record([steer(1, 0), steer(0, 0)]);
+        recorder.record([{ direction: { x: 1, y: 0 }, buttonEffect: 'X' }, steer(0, 0)]);
+        recorder.recordResize(1.25);
+        recorder.record([steer(1, 0), steer(0, -1)]);
+        return recorder;
+    }
+
+    test('a serialized replay parses back unchanged', () => {
+        const data = recording().getData();
+        expect(parseReplay(JSON.parse(serializeReplay(data)))).toEqual(data);
+    });
+
+    test('resize ticks may not go backwards', () => {
+        const raw = JSON.parse(serializeReplay(recording().getData()));
+        raw.resizes = [[2, 1.2], [1, 1.4]];
+        expect(() => parseReplay(raw)).toThrow('resize list');
+    });
+
+    test('a replay without a level is rejected as such', () => {
+        const raw = JSON.parse(serializeReplay(recording().getData()));
+        delete raw.level;
+        expect(() => parseReplay(raw)).toThrow('Replay level');
+    });
+
+    test('malformed input streams are rejected', () => {
+        const raw = JSON.parse(serializeReplay(recording().getData()));
+        raw.input[1].push([1, 0, 0, 'Z']);
+        expect(() => parseReplay(raw)).toThrow('input stream');
+    });
+});
@@ -0,0 +1,259 @@
+/**
+ * Headless Simulation tests: the rules run without a DOM or renderer,
+ * stepped at the game's fixed tick.
+ *
+ *   bun test
+ */
+
+import { describe, expect, test } from 'bun:test';
+import { CONFIG } from '../src/constants';
+import { Simulation } from '../src/game/Simulation';
+import type { TickInput } from '../src/game/Simulation';
+import type { LevelData, Zone } from '../src/game/Level';
+import { inZone } from '../src/game/Level';
+import { RNG } from '../src/utils/Random';
+
+const DT = 1 / CONFIG.SIMULATION.TICK_RATE;
+const ASPECT = 1.5;
+
+/**
+ * Open 16x12 level with the snake in the middle and no organisms
+ */
+function makeLevel(overrides: Partial<LevelData> = {}): LevelData {
+    return {
+        version: 1,
+        id: 'test',
+        name: 'Test',
+        columns: 16,
+        rows: 12,
+        obstacles: Array.from({ length: 12 }, () => '.'.repeat(16)),
+        spawn: { x: 0, z: 0 },
+        fruitCount: 1,
+        fruitZones: [],
+        organisms: { count: 0, zones: [] },
+        win: { type: 'fruit', count: 99 },
+        classic: false,
+        ...overrides
+    };
+}
+
+/**
+ * Fruit may land up to the spawn jitter past a zone edge (see World.spawnFruit)
+ */
+function nearZone(zone: Zone, x: number, z: number): boolean {
+    const jitter = CONFIG.GRID.CELL_SIZE - (CONFIG.SNAKE.CIRCLE_RADIUS + CONFIG.SNAKE.SAFETY_MARGIN);
+    return inZone({ ...zone, width: zone.width + 2 * jitter, depth: zone.depth + 2 * jitter }, x, z);
+}
+
+function start(level: LevelData | null, players: number = 1, seed: number = 1): Simulation {
+    const simulation = new Simulation(ASPECT, false, players);
+    RNG.setSeed(seed);
+    simulation.configure(false, players, level);
+    simulation.resize(ASPECT);
+    simulation.reset();
+    return simulation;
+}
+
+function steer(x: number, y: number): TickInput {
+    return { direction: { x, y }, buttonEffect: null };
+}
+
+function run(simulation: Simulation, ticks: number, inputs: TickInput[]) {
+    for (let i = 0; i < ticks; i++) simulation.step(inputs, DT);
+}
+
+/**
+ * Steer straight at the nearest fruit, one tick at a time
+ */
+function chaseFruit(simulation: Simulation, ticks: number) {
+    for (let i = 0; i < ticks; i++) {
+        const head = simulation.getSnakes()[0].getHeadPosition();
+        const fruit = simulation.world.getFruitPositions();
+        if (fruit.length === 0) {
+            simulation.step([steer(0, 0)], DT);
+            continue;
+        }
+        const nearest = fruit.reduce((a, b) => Math.hypot(a.x - head.x, a.z - head.z) <= Math.hypot(b.x - head.x, b.z - head.z) ? a : b);
+        const dx = nearest.x - head.x;
+        const dz = nearest.z - head.z;
+        const length = Math.hypot(dx, dz) || 1;
+        simulation.step([steer(dx / length, dz / length)], DT);
+    }
+}
+
+describe('movement', () => {
+    test('the snake stops at the edge of the world', () => {
+        const simulation = start(null);
+        const { width } = simulation.world.getWorldBounds();
+
+        run(simulation, 600, [steer(1, 0)]);
+        const head = simulation.getSnakes()[0].getHeadPosition();
+        expect(head.x).toBeGreaterThan(0);
+        expect(head.x + CONFIG.SNAKE.CIRCLE_RADIUS).toBeLessThanOrEqual(width / 2);
+    });
+});
+
+describe('fruit collection', () => {
+    test('eating fruit scores and grows the snake', () => {
+        const simulation = start(null);
+        const eaten: number[] = [];
+        simulation.events.on('fruitEaten', (_player, _type, points) => eaten.push(points));
+        const nodes = simulation.getSnakes()[0].getNodeCount();
+
+        chaseFruit(simulation, 600);
+        expect(eaten.length).toBeGreaterThanOrEqual(1);
+        expect(simulation.getPlayers()[0].score.getScore()).toBe(eaten.reduce((sum, points) => sum + points, 0));
+        expect(simulation.getSnakes()[0].getNodeCount()).toBeGreaterThan(nodes);
+    });
+
+    test('reset starts a fresh run', () => {
+        const simulation = start(null);
+        chaseFruit(simulation, 600);
+        const before = simulation.getSnakes()[0];
+        let spawned = 0;
+        simulation.events.on('snakesSpawned', () => spawned++);
+
+        simulation.reset();
+        expect(spawned).toBe(1);
+        expect(simulation.getSnakes()[0]).not.toBe(before);
+        expect(simulation.getPlayers()[0].score.getScore()).toBe(0);
+        expect(simulation.isGameOver()).toBe(false);
+    });
+
+    const zone: Zone = { x: -4, z: 0, width: 1, depth: 1 };
+
+    test('steering into fruit eats it, scores and counts level progress', () => {
+        const simulation = start(makeLevel({ fruitZones: [zone] }));
+        const eaten: { player: number, points: number }[] = [];
+        simulation.events.on('fruitEaten', (player, _type, points) => eaten.push({ player, points }));
+
+        run(simulation, 1, [steer(0, 0)]);
+        const fruit = simulation.world.getFruitPositions();
+        expect(fruit).toHaveLength(1);
+        expect(nearZone(zone, fruit[0].x, fruit[0].z)).toBe(true);
+
+        run(simulation, 60, [steer(-1, 0)]);
+        expect(eaten.length).toBeGreaterThanOrEqual(1);
+        expect(eaten[0].player).toBe(0);
+        expect(eaten[0].points).toBeGreaterThan(0);
+        expect(simulation.getPlayers()[0].score.getScore()).toBe(eaten.reduce((sum, e) => sum + e.points, 0));
+        expect(simulation.getLevelProgress().fruit).toBe(eaten.length);
+    });
+
+    test('eaten fruit is replaced inside its zone', () => {
+        const simulation = start(makeLevel({ fruitZones: [zone] }));
+        let eaten = 0;
+        let added = 0;
+        simulation.events.on('fruitEaten', () => eaten++);
+        simulation.world.events.on('fruitAdded', fruit => {
+            added++;
+            expect(nearZone(zone, fruit.x, fruit.z)).toBe(true);
+        });
+
+        run(simulation, 60, [steer(-1, 0)]);
+        expect(eaten).toBeGreaterThanOrEqual(1);
+        // Every fruit that appeared was either eaten or is still there
+        expect(added).toBe(eaten + simulation.world.getFruits().length);
+        expect(added).toBeGreaterThan(1);
+    });
+
+    test('fruit win condition completes the level', () => {
+        const simulation = start(makeLevel({ fruitZones: [zone], win: { type: 'fruit', count: 1 } }));
+        let completed = 0;
+        simulation.events.on('levelCompleted', () => completed++);
+
+        run(simulation, 60, [steer(-1, 0)]);
+        expect(completed).toBe(1);
+        expect(simulation.isGameOver()).toBe(true);
+    });
+});
+
+describe('blocked moves', () => {
+    // Two-cell wall right of the spawn point, just clear of the spawn coil (cells x 4..5)
+    const obstacles = Array.from({ length: 12 }, (_, row) => row === 5 || row === 6 ? '............#...' : '.'.repeat(16));
+
+    test('the snake stops short of an obstacle and reports it once', () => {
+        const simulation = start(makeLevel({ obstacles }));
+        const blocked: number[] = [];
+        simulation.events.on('blocked', player => blocked.push(player));
+
+        run(simulation, 120, [steer(1, 0)]);
+        const head = simulation.getSnakes()[0].getHeadPosition();
+        expect(head.x).toBeGreaterThan(2.5);
+        expect(head.x + CONFIG.SNAKE.CIRCLE_RADIUS).toBeLessThanOrEqual(4.0);
+        expect(blocked).toEqual([0]);
+        expect(simulation.getPlayers()[0].blocked).toBe(true);
+    });
+
+    test('steering away clears the blocked state', () => {
+        const simulation = start(makeLevel({ obstacles }));
+        run(simulation, 120, [steer(1, 0)]);
+        run(simulation, 10, [steer(-1, 0)]);
+        expect(simulation.getPlayers()[0].blocked).toBe(false);
+    });
+
+    test('no input is not a block', () => {
+        const simulation = start(makeLevel({ obstacles }));
+        let blocked = 0;
+        simulation.events.on('blocked', () => blocked++);
+
+        run(simulation, 60, [steer(0, 0)]);
+        expect(blocked).toBe(0);
+    });
+});
+
+describe('spawn placement', () => {
+    test('a level spawns its snake at the spawn point', () => {
+        const simulation = start(makeLevel({ spawn: { x: 3.5, z: -2.5 } }));
+        const head = simulation.getSnakes()[0].getHeadPosition();
+        expect(head.x).toBeCloseTo(3.5);
+        expect(head.z).toBeCloseTo(-2.5);
+    });
+
+    test.each([1, 2, 3, 4])('%i sandbox snakes start apart and inside the world', players => {
+        const simulation = start(null, players);
+        const { width, depth } = simulation.world.getWorldBounds();
+        const heads = simulation.getSnakes().map(snake => snake.getHeadPosition());
+
+        expect(heads).toHaveLength(players);
+        for (const head of heads) {
+            expect(Math.abs(head.x)).toBeLessThan(width / 2);
+            expect(Math.abs(head.z)).toBeLessThan(depth / 2);
+        }
+        for (let i = 0; i < heads.length; i++) {
+            for (let j = i + 1; j < heads.length; j++) {
+                expect(heads[i].distanceTo(heads[j])).toBeGreaterThan(2 * CONFIG.SNAKE.CIRCLE_RADIUS);
+            }
+        }
+    });
+
+    test('fruit spawns only inside its zones and never on obstacles', () => {
+        const zones: Zone[] = [{ x: -5, z: -3, width: 4, depth: 4 }, { x: 5, z: 3, width: 4, depth: 4 }];
+        // Block the centre of the first zone
+        const obstacles = Array.from({ length: 12 }, (_, row) => row === 3 ? '..#.............' : '.'.repeat(16));
+        const simulation = start(makeLevel({ obstacles, fruitCount: 4, fruitZones: zones }), 1, 7);
+        // At most one fruit appears per tick
+        run(simulation, 30, [steer(0, 0)]);
+
+        const cells = simulation.world.getObstacleCells();
+        const fruit = simulation.world.getFruitPositions();
+        expect(fruit).toHaveLength(4);
+        for (const { x, z } of fruit) {
+            expect(zones.some(zone => nearZone(zone, x, z))).toBe(true);
+            for (const cell of cells) {
+                const overlaps = Math.abs(cell.x - x) < CONFIG.GRID.CELL_SIZE / 2 && Math.abs(cell.z - z) < CONFIG.GRID.CELL_SIZE / 2;
+                expect(overlaps).toBe(false);
+            }
+        }
+    });
+
+    test('the same seed spawns the same world', () => {
+        const positions = (seed: number) => {
+            const simulation = start(null, 1, seed);
+            run(simulation, 30, [steer(0, 0)]);
+            return JSON.stringify([simulation.world.getFruitPositions(), simulation.world.getObstacleCells()]);
+        };
+        expect(positions(11)).toBe(positions(11));
+        expect(positions(11)).not.toBe(positions(12));
+    });
+});